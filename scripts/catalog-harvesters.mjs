@@ -0,0 +1,175 @@
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { join } from 'path'
+
+const TOP_CATEGORY_COUNT = 5
+const REQUEST_TIMEOUT_MS = 20000
+
+// ---------------------------------------------------------------------------
+// Fetchers: harvesters take a fetchJson(url) so they can run live, replay
+// recorded fixtures or record new ones.
+// ---------------------------------------------------------------------------
+
+export async function fetchJsonLive(url) {
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json' },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} from ${url}`)
+  }
+  return response.json()
+}
+
+/**
+ * File name for a recorded response: host, path and query flattened.
+ */
+export function fixtureName(url) {
+  const { host, pathname, search } = new URL(url)
+  return `${host}${pathname}${decodeURIComponent(search)}`.replace(/[^a-zA-Z0-9.-]+/g, '_') + '.json'
+}
+
+export function createFixtureFetcher(dir) {
+  return async (url) => {
+    const file = join(dir, fixtureName(url))
+    try {
+      return JSON.parse(await readFile(file, 'utf-8'))
+    } catch (error) {
+      if (error.code === 'ENOENT') throw new Error(`No recorded response for ${url} (${file})`)
+      throw error
+    }
+  }
+}
+
+export function createRecordingFetcher(dir, fetchJson = fetchJsonLive) {
+  return async (url) => {
+    const body = await fetchJson(url)
+    await mkdir(dir, { recursive: true })
+    await writeFile(join(dir, fixtureName(url)), JSON.stringify(body, null, 2), 'utf-8')
+    return body
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Harvesters. Each returns
+//   { apiUrl, datasetCount, topCategories: [{ name, count }], lastUpdated }
+// where lastUpdated is an ISO date (YYYY-MM-DD) or null.
+// ---------------------------------------------------------------------------
+
+function isoDate(value) {
+  if (value === null || value === undefined || value === '') return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10)
+}
+
+function latestDate(values) {
+  return values.map(isoDate).filter(Boolean).sort().pop() ?? null
+}
+
+function topCounts(counts) {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TOP_CATEGORY_COUNT)
+    .map(([name, count]) => ({ name, count }))
+}
+
+/**
+ * Socrata Discovery API: dataset count and latest update from the catalog,
+ * categories from the domain's facets.
+ */
+async function harvestSocrata(origin, host, fetchJson) {
+  const apiUrl = `${origin}/api/catalog/v1?domains=${host}&search_context=${host}&only=datasets&order=updatedAt&limit=1`
+  const catalog = await fetchJson(apiUrl)
+  const facets = await fetchJson(`${origin}/api/catalog/v1/domains/${host}/facets?only=datasets`)
+
+  const categories = facets.find?.((facet) => facet.facet === 'categories')?.values ?? []
+
+  return {
+    apiUrl,
+    datasetCount: catalog.resultSetSize ?? 0,
+    topCategories: topCounts(new Map(categories.map((value) => [value.value, value.count]))),
+    lastUpdated: latestDate((catalog.results ?? []).map((result) => result.resource?.updatedAt)),
+  }
+}
+
+/**
+ * CKAN Action API: package_search sorted by modification date, faceted by group.
+ */
+async function harvestCkan(origin, fetchJson) {
+  const apiUrl = `${origin}/api/3/action/package_search?rows=1&sort=metadata_modified%20desc` +
+    `&facet.field=${encodeURIComponent('["groups"]')}&facet.limit=${TOP_CATEGORY_COUNT}`
+  const response = await fetchJson(apiUrl)
+  if (!response.success) throw new Error('CKAN package_search returned success: false')
+
+  const { count, results, search_facets: searchFacets } = response.result
+  const groups = searchFacets?.groups?.items ?? []
+
+  return {
+    apiUrl,
+    datasetCount: count ?? 0,
+    topCategories: topCounts(new Map(groups.map((item) => [item.display_name ?? item.name, item.count]))),
+    lastUpdated: latestDate((results ?? []).map((result) => result.metadata_modified)),
+  }
+}
+
+/**
+ * ArcGIS Hub search API (OGC API - Records). Hub has no category facet here,
+ * so categories are counted over the most recently modified page of items.
+ */
+async function harvestArcgisHub(origin, fetchJson) {
+  const apiUrl = `${origin}/api/search/v1/collections/dataset/items?limit=100&sortBy=-properties.modified`
+  const response = await fetchJson(apiUrl)
+  const features = response.features ?? []
+
+  const counts = new Map()
+  features.forEach((item) => {
+    ;(item.properties?.categories ?? []).forEach((category) => {
+      // Hub categories are paths like "/Categories/Transportation"
+      const name = String(category).split('/').filter(Boolean).pop()
+      if (name && name !== 'Categories') counts.set(name, (counts.get(name) ?? 0) + 1)
+    })
+  })
+
+  return {
+    apiUrl,
+    datasetCount: response.numberMatched ?? features.length,
+    topCategories: topCounts(counts),
+    lastUpdated: latestDate(features.map((item) => item.properties?.modified)),
+  }
+}
+
+export const HARVESTED_PLATFORMS = ['socrata', 'ckan', 'arcgis-hub']
+
+/**
+ * Harvest catalog statistics for one portal. Returns null for platforms
+ * without a harvester. API failures are recorded rather than thrown.
+ */
+export async function harvestCatalog(portalUrl, platform, fetchJson = fetchJsonLive) {
+  if (!HARVESTED_PLATFORMS.includes(platform)) return null
+
+  const { origin, host } = new URL(portalUrl)
+  const harvestedAt = new Date().toISOString()
+
+  try {
+    const stats = platform === 'socrata' ? await harvestSocrata(origin, host, fetchJson)
+      : platform === 'ckan' ? await harvestCkan(origin, fetchJson)
+      : await harvestArcgisHub(origin, fetchJson)
+    return { platform, apiAvailable: true, ...stats, harvestedAt }
+  } catch (error) {
+    return { platform, apiAvailable: false, error: error?.message ?? String(error), harvestedAt }
+  }
+}
+
+/**
+ * Harvest results ({ jurisdictionId, url, stats }) keyed by jurisdiction ID
+ * and then portal URL, since a jurisdiction can list several portals (as in
+ * diff-portals.mjs). Sorted so re-runs diff cleanly.
+ */
+export function groupCatalogResults(results) {
+  const jurisdictions = {}
+  ;[...results]
+    .sort((a, b) => a.jurisdictionId.localeCompare(b.jurisdictionId) || a.url.localeCompare(b.url))
+    .forEach(({ jurisdictionId, url, stats }) => {
+      jurisdictions[jurisdictionId] = { ...jurisdictions[jurisdictionId], [url]: stats }
+    })
+  return jurisdictions
+}
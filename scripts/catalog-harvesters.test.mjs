@@ -0,0 +1,90 @@
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  createFixtureFetcher,
+  createRecordingFetcher,
+  fixtureName,
+  groupCatalogResults,
+  harvestCatalog,
+} from './catalog-harvesters.mjs'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const FIXTURES_DIR = join(__dirname, 'fixtures', 'catalog')
+const fetchFixture = createFixtureFetcher(FIXTURES_DIR)
+
+describe('harvestCatalog', () => {
+  it('reads Socrata counts, categories and the latest update', async () => {
+    const stats = await harvestCatalog('https://data.cityofchicago.org/', 'socrata', fetchFixture)
+    expect(stats).toMatchObject({ platform: 'socrata', apiAvailable: true, datasetCount: 312, lastUpdated: '2026-09-30' })
+    expect(stats.topCategories[0]).toEqual({ name: 'Transportation', count: 61 })
+    expect(stats.topCategories).toHaveLength(5)
+  })
+
+  it('reads CKAN counts and group facets', async () => {
+    const stats = await harvestCatalog('https://data.boston.gov/', 'ckan', fetchFixture)
+    expect(stats).toMatchObject({ apiAvailable: true, datasetCount: 246, lastUpdated: '2026-10-02' })
+    expect(stats.topCategories.map((category) => category.name)).toContain('City Services')
+  })
+
+  it('counts ArcGIS Hub categories over the recent items', async () => {
+    const stats = await harvestCatalog('https://data-adcogov.opendata.arcgis.com/', 'arcgis-hub', fetchFixture)
+    expect(stats).toMatchObject({ apiAvailable: true, datasetCount: 87, lastUpdated: '2025-09-30' })
+    expect(stats.topCategories).toEqual([
+      { name: 'Property', count: 2 },
+      { name: 'Planning', count: 1 },
+      { name: 'Transportation', count: 1 },
+    ])
+  })
+
+  it('records an unavailable API instead of throwing', async () => {
+    const stats = await harvestCatalog('https://data.wprdc.org/', 'ckan', fetchFixture)
+    expect(stats.apiAvailable).toBe(false)
+    expect(stats.error).toMatch(/No recorded response/)
+  })
+
+  it('skips platforms without a harvester', async () => {
+    expect(await harvestCatalog('https://www.denvergov.org/opendata/', 'custom', fetchFixture)).toBeNull()
+  })
+})
+
+describe('recording fetcher', () => {
+  let dir
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'catalog-fixtures-'))
+  })
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('saves responses that the fixture fetcher can replay', async () => {
+    const url = 'https://data.example.gov/api/3/action/package_search?rows=1'
+    const body = { success: true, result: { count: 1, results: [] } }
+    const record = createRecordingFetcher(dir, async () => body)
+
+    expect(await record(url)).toEqual(body)
+    expect(JSON.parse(await readFile(join(dir, fixtureName(url)), 'utf-8'))).toEqual(body)
+    expect(await createFixtureFetcher(dir)(url)).toEqual(body)
+  })
+})
+
+describe('groupCatalogResults', () => {
+  it('keeps every portal of a jurisdiction, sorted by URL', () => {
+    const stats = (datasetCount) => ({ platform: 'ckan', apiAvailable: true, datasetCount })
+    const grouped = groupCatalogResults([
+      { jurisdictionId: '2507000', url: 'https://data.boston.gov/', stats: stats(2) },
+      { jurisdictionId: '08001', url: 'https://data-adcogov.opendata.arcgis.com/', stats: stats(3) },
+      { jurisdictionId: '2507000', url: 'https://boston.ckan.example/', stats: stats(1) },
+    ])
+
+    expect(grouped).toEqual({
+      '08001': { 'https://data-adcogov.opendata.arcgis.com/': stats(3) },
+      '2507000': { 'https://boston.ckan.example/': stats(1), 'https://data.boston.gov/': stats(2) },
+    })
+    expect(Object.keys(grouped['2507000'])).toEqual(['https://boston.ckan.example/', 'https://data.boston.gov/'])
+  })
+})
@@ -0,0 +1,65 @@
+#!/usr/bin/env node
+
+import { readFile, writeFile } from 'fs/promises'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { DEFAULT_OPTIONS, checkUrls, summarizeResults } from './portal-health.mjs'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+const OUTPUT_DIR = join(__dirname, '..', 'src', 'data')
+const SNAPSHOT_FILE = process.env.PORTALS_SNAPSHOT_FILE || join(OUTPUT_DIR, 'portals.snapshot.json')
+const HEALTH_FILE = process.env.PORTALS_HEALTH_FILE || join(OUTPUT_DIR, 'portals.health.json')
+
+// Options: --timeout=<ms> --max-redirects=<n> --concurrency=<n>
+function parseOptions(argv) {
+  const options = { ...DEFAULT_OPTIONS }
+  argv.forEach((arg) => {
+    const [, key, value] = arg.match(/^--([a-z-]+)=(\d+)$/) ?? []
+    if (key === 'timeout') options.timeoutMs = Number(value)
+    else if (key === 'max-redirects') options.maxRedirects = Number(value)
+    else if (key === 'concurrency') options.concurrency = Number(value)
+  })
+  return options
+}
+
+const ICONS = { reachable: '✅', redirected: '↪️ ', broken: '❌' }
+
+async function main() {
+  try {
+    const options = parseOptions(process.argv.slice(2))
+    const rows = JSON.parse(await readFile(SNAPSHOT_FILE, 'utf-8'))
+    const urls = rows.map((row) => row.URL?.trim()).filter(Boolean)
+
+    console.log(`🔄 Checking ${new Set(urls).size} portal URLs from:`, SNAPSHOT_FILE)
+    console.log(`   timeout ${options.timeoutMs} ms, max ${options.maxRedirects} redirects, concurrency ${options.concurrency}`)
+
+    const results = await checkUrls(urls, {
+      ...options,
+      onResult: (result) => {
+        const detail = result.status === 'broken' ? result.error
+          : result.status === 'redirected' ? `→ ${result.finalUrl}`
+          : result.httpStatus
+        console.log(`${ICONS[result.status]} ${result.url} ${detail}`)
+      },
+    })
+
+    const summary = summarizeResults(results)
+    const health = {
+      checkedAt: new Date().toISOString(),
+      options: { timeoutMs: options.timeoutMs, maxRedirects: options.maxRedirects },
+      summary,
+      // Sorted so re-runs diff cleanly
+      results: Object.fromEntries(Object.entries(results).sort(([a], [b]) => a.localeCompare(b))),
+    }
+
+    await writeFile(HEALTH_FILE, JSON.stringify(health, null, 2), 'utf-8')
+    console.log('✅ Wrote:', HEALTH_FILE)
+    console.log(`📋 ${summary.reachable} reachable, ${summary.redirected} redirected, ${summary.broken} broken`)
+  } catch (error) {
+    console.error('❌ Error checking portals:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,72 @@
+import { normalizeJurisdictionId } from './validate-portals.mjs'
+
+// Sheet columns compared for rows whose ID and URL are unchanged
+const TRACKED_FIELDS = ['Jurisdiction', 'Population Size', 'Government Type', 'Notes', 'Latitude', 'Longitude']
+
+function entry(row) {
+  return {
+    jurisdiction: row.Jurisdiction?.trim() || '',
+    jurisdictionId: normalizeJurisdictionId(row),
+    url: row.URL?.trim() || '',
+  }
+}
+
+function groupById(rows) {
+  const groups = new Map()
+  rows.forEach((row) => {
+    const id = normalizeJurisdictionId(row)
+    groups.set(id, [...(groups.get(id) ?? []), row])
+  })
+  return groups
+}
+
+/**
+ * Compare two snapshots keyed on Jurisdiction ID + URL.
+ * - added: ID + URL pairs only in the current snapshot
+ * - removed: ID + URL pairs only in the previous snapshot
+ * - changed: same ID with a new URL, or same ID + URL with edited sheet fields
+ */
+export function diffSnapshots(previousRows, currentRows) {
+  const added = []
+  const removed = []
+  const changed = []
+
+  const previousById = groupById(previousRows)
+  const currentById = groupById(currentRows)
+  const ids = new Set([...previousById.keys(), ...currentById.keys()])
+
+  ids.forEach((id) => {
+    const before = previousById.get(id) ?? []
+    const after = currentById.get(id) ?? []
+    const beforeByUrl = new Map(before.map((row) => [row.URL?.trim() || '', row]))
+    const afterByUrl = new Map(after.map((row) => [row.URL?.trim() || '', row]))
+
+    // Same ID + URL: report edited fields
+    afterByUrl.forEach((row, url) => {
+      const previous = beforeByUrl.get(url)
+      if (!previous) return
+      const fields = TRACKED_FIELDS.filter(
+        (field) => String(previous[field] ?? '').trim() !== String(row[field] ?? '').trim()
+      )
+      if (fields.length > 0) changed.push({ ...entry(row), fields })
+    })
+
+    const onlyBefore = before.filter((row) => !afterByUrl.has(row.URL?.trim() || ''))
+    const onlyAfter = after.filter((row) => !beforeByUrl.has(row.URL?.trim() || ''))
+
+    // Pair up URL replacements within the same jurisdiction
+    const pairs = Math.min(onlyBefore.length, onlyAfter.length)
+    for (let i = 0; i < pairs; i++) {
+      changed.push({ ...entry(onlyAfter[i]), previousUrl: onlyBefore[i].URL?.trim() || '', fields: ['URL'] })
+    }
+    onlyAfter.slice(pairs).forEach((row) => added.push(entry(row)))
+    onlyBefore.slice(pairs).forEach((row) => removed.push(entry(row)))
+  })
+
+  const byName = (a, b) => a.jurisdiction.localeCompare(b.jurisdiction)
+  return {
+    added: added.sort(byName),
+    removed: removed.sort(byName),
+    changed: changed.sort(byName),
+  }
+}
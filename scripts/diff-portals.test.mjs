@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { diffSnapshots } from './diff-portals.mjs'
+
+function row(overrides) {
+  return {
+    Jurisdiction: 'Dallas, TX',
+    'Jurisdiction ID': '4819000',
+    URL: 'https://www.dallasopendata.com/',
+    'Population Size': 'Population exceeding 1 million',
+    'Government Type': 'City',
+    Notes: '',
+    ...overrides,
+  }
+}
+
+const dallas = row({})
+const denver = row({ Jurisdiction: 'Denver, CO', 'Jurisdiction ID': '0820000', URL: 'https://www.denvergov.org/opendata' })
+const adams = row({ Jurisdiction: 'Adams County, CO', 'Jurisdiction ID': '8001', URL: 'https://data.adcogov.org/', 'Government Type': 'County' })
+
+describe('diffSnapshots', () => {
+  it('finds nothing between identical snapshots', () => {
+    expect(diffSnapshots([dallas, denver], [dallas, denver])).toEqual({ added: [], removed: [], changed: [] })
+  })
+
+  it('lists added and removed portals by name, with padded IDs', () => {
+    const { added, removed, changed } = diffSnapshots([dallas, adams], [dallas, denver])
+
+    expect(added).toEqual([{ jurisdiction: 'Denver, CO', jurisdictionId: '0820000', url: 'https://www.denvergov.org/opendata' }])
+    expect(removed).toEqual([{ jurisdiction: 'Adams County, CO', jurisdictionId: '08001', url: 'https://data.adcogov.org/' }])
+    expect(changed).toEqual([])
+  })
+
+  it('reports a replaced URL as a change, not an addition and a removal', () => {
+    const moved = { ...dallas, URL: 'https://data.dallascityhall.com/' }
+    const { added, removed, changed } = diffSnapshots([dallas], [moved])
+
+    expect(added).toEqual([])
+    expect(removed).toEqual([])
+    expect(changed).toEqual([{
+      jurisdiction: 'Dallas, TX',
+      jurisdictionId: '4819000',
+      url: 'https://data.dallascityhall.com/',
+      previousUrl: 'https://www.dallasopendata.com/',
+      fields: ['URL'],
+    }])
+  })
+
+  it('reports edited sheet fields for an unchanged ID and URL', () => {
+    const edited = { ...dallas, Notes: 'Socrata', Latitude: '32.7767' }
+    expect(diffSnapshots([dallas], [edited]).changed).toEqual([
+      { jurisdiction: 'Dallas, TX', jurisdictionId: '4819000', url: 'https://www.dallasopendata.com/', fields: ['Notes', 'Latitude'] },
+    ])
+  })
+
+  it('compares each portal of a jurisdiction with several portals', () => {
+    const police = row({ URL: 'https://dallaspolice.net/data' })
+    const budget = row({ URL: 'https://budget.dallascityhall.com/', Notes: 'Budget' })
+    const parks = row({ URL: 'https://parks.dallascityhall.com/' })
+
+    // Police keeps its URL with new notes; of the two URLs gone, the first pairs with the new parks URL
+    const { added, removed, changed } = diffSnapshots(
+      [dallas, police, budget],
+      [{ ...police, Notes: 'Crime data' }, parks]
+    )
+
+    expect(changed).toEqual([
+      { jurisdiction: 'Dallas, TX', jurisdictionId: '4819000', url: 'https://dallaspolice.net/data', fields: ['Notes'] },
+      {
+        jurisdiction: 'Dallas, TX',
+        jurisdictionId: '4819000',
+        url: 'https://parks.dallascityhall.com/',
+        previousUrl: 'https://www.dallasopendata.com/',
+        fields: ['URL'],
+      },
+    ])
+    expect(removed).toEqual([{ jurisdiction: 'Dallas, TX', jurisdictionId: '4819000', url: 'https://budget.dallascityhall.com/' }])
+    expect(added).toEqual([])
+  })
+
+  it('lists extra portals of a jurisdiction as added once the replacements are paired', () => {
+    const second = row({ URL: 'https://gis.dallascityhall.com/' })
+    const third = row({ URL: 'https://budget.dallascityhall.com/' })
+    const { added, removed, changed } = diffSnapshots([dallas], [dallas, second, third])
+
+    expect(changed).toEqual([])
+    expect(removed).toEqual([])
+    expect(added.map((entry) => entry.url)).toEqual(['https://gis.dallascityhall.com/', 'https://budget.dallascityhall.com/'])
+  })
+})
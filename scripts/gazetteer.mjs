@@ -0,0 +1,162 @@
+import { readFile, access } from 'fs/promises'
+import Papa from 'papaparse'
+import { normalizeJurisdictionId } from './validate-portals.mjs'
+
+// Sheet coordinates farther than this from the gazetteer point are reported
+export const DEFAULT_MAX_DISTANCE_KM = 25
+
+const EARTH_RADIUS_KM = 6371
+
+// Columns kept in the trimmed lookup (data/place-coordinates.tsv)
+const LOOKUP_COLUMNS = ['GEOID', 'INTPTLAT', 'INTPTLONG']
+
+/**
+ * Parse a Census place gazetteer file (e.g. 2024_Gaz_place_national.txt), or
+ * the trimmed lookup written by formatGazetteer: tab-delimited with GEOID,
+ * INTPTLAT, INTPTLONG and, in the Census file, NAME columns.
+ * Returns a Map of 7-digit place GEOID -> { name, latitude, longitude }.
+ */
+export function parseGazetteer(text) {
+  const parsed = Papa.parse(text, {
+    header: true,
+    delimiter: '\t',
+    skipEmptyLines: true,
+    // The last header in Census files is padded with spaces
+    transformHeader: (header) => header.trim(),
+  })
+
+  const places = new Map()
+  parsed.data.forEach((row) => {
+    const geoid = String(row.GEOID ?? '').trim()
+    const latitude = Number(String(row.INTPTLAT ?? '').trim() || NaN)
+    const longitude = Number(String(row.INTPTLONG ?? '').trim() || NaN)
+    if (!/^\d{7}$/.test(geoid) || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return
+    places.set(geoid, { name: String(row.NAME ?? '').trim(), latitude, longitude })
+  })
+  return places
+}
+
+/**
+ * The trimmed lookup for parsed places: GEOID and internal point only,
+ * sorted by GEOID so regenerating it gives a readable diff.
+ */
+export function formatGazetteer(places) {
+  const lines = [...places.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([geoid, { latitude, longitude }]) => [geoid, latitude, longitude].join('\t'))
+  return [LOOKUP_COLUMNS.join('\t'), ...lines].join('\n') + '\n'
+}
+
+/**
+ * Load the gazetteer from disk, or null when the file is not present.
+ */
+export async function loadGazetteer(path) {
+  try {
+    await access(path)
+  } catch {
+    return null
+  }
+  return parseGazetteer(await readFile(path, 'utf-8'))
+}
+
+/** Great-circle distance in kilometers */
+export function distanceKm(lat1, lon1, lat2, lon2) {
+  const toRadians = (degrees) => (degrees * Math.PI) / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLon = toRadians(lon2 - lon1)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a))
+}
+
+function isCity(row) {
+  return String(row['Government Type'] ?? '').split(',').map((type) => type.trim()).includes('City')
+}
+
+function parseCoordinates(row) {
+  const hasLat = String(row.Latitude ?? '').trim() !== ''
+  const hasLon = String(row.Longitude ?? '').trim() !== ''
+  if (!hasLat || !hasLon) return null
+  const latitude = Number(row.Latitude)
+  const longitude = Number(row.Longitude)
+  return Number.isFinite(latitude) && Number.isFinite(longitude) ? { latitude, longitude } : null
+}
+
+/**
+ * Fill in missing city coordinates from the gazetteer and record where each
+ * row's coordinates came from in a `Coordinate Source` column ("sheet",
+ * "gazetteer", or empty when the row has none). Rows filled by an earlier run
+ * are resolved again, so re-running picks up gazetteer updates; without a
+ * gazetteer (null) they are kept as they are.
+ *
+ * Returns the new rows plus, tagged with each row's CSV line (`lines` from
+ * parseSheetCsv; rows read back from the snapshot are numbered by position):
+ * - disagreements: sheet coordinates more than maxDistanceKm from the gazetteer point
+ * - unresolved: cities left without coordinates
+ */
+export function resolveCoordinates(rows, gazetteer, {
+  maxDistanceKm = DEFAULT_MAX_DISTANCE_KM,
+  lines = rows.map((_, index) => index + 2),
+} = {}) {
+  const disagreements = []
+  const unresolved = []
+
+  const resolved = rows.map((row, index) => {
+    const line = lines[index]
+    const jurisdiction = row.Jurisdiction?.trim() || ''
+    const jurisdictionId = normalizeJurisdictionId(row)
+    const filledEarlier = row['Coordinate Source'] === 'gazetteer'
+
+    // Without a gazetteer, keep what an earlier run filled in
+    if (filledEarlier && !gazetteer) return row
+
+    const place = isCity(row) ? gazetteer?.get(jurisdictionId) : undefined
+    const sheet = filledEarlier ? null : parseCoordinates(row)
+
+    if (sheet) {
+      if (place) {
+        const distance = distanceKm(sheet.latitude, sheet.longitude, place.latitude, place.longitude)
+        if (distance > maxDistanceKm) {
+          disagreements.push({
+            line,
+            jurisdiction,
+            jurisdictionId,
+            sheet: [sheet.latitude, sheet.longitude],
+            gazetteer: [place.latitude, place.longitude],
+            distanceKm: Math.round(distance * 10) / 10,
+          })
+        }
+      }
+      return { ...row, 'Coordinate Source': 'sheet' }
+    }
+
+    if (place) {
+      return {
+        ...row,
+        Latitude: String(place.latitude),
+        Longitude: String(place.longitude),
+        'Coordinate Source': 'gazetteer',
+      }
+    }
+
+    if (isCity(row)) unresolved.push({ line, jurisdiction, jurisdictionId })
+    return filledEarlier
+      ? { ...row, Latitude: '', Longitude: '', 'Coordinate Source': '' }
+      : { ...row, 'Coordinate Source': '' }
+  })
+
+  return { rows: resolved, disagreements, unresolved }
+}
+
+/**
+ * Counts for the coordinates report.
+ */
+export function summarizeCoordinates(rows, disagreements, unresolved) {
+  const count = (source) => rows.filter((row) => row['Coordinate Source'] === source).length
+  return {
+    sheet: count('sheet'),
+    gazetteer: count('gazetteer'),
+    unresolved: unresolved.length,
+    disagreements: disagreements.length,
+  }
+}
@@ -0,0 +1,126 @@
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  distanceKm,
+  formatGazetteer,
+  loadGazetteer,
+  parseGazetteer,
+  resolveCoordinates,
+  summarizeCoordinates,
+} from './gazetteer.mjs'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const GAZETTEER_FIXTURE = join(__dirname, 'fixtures', 'gazetteer-places.txt')
+
+function row(overrides) {
+  return {
+    Jurisdiction: 'Test',
+    'Jurisdiction ID': '0000000',
+    URL: 'https://example.gov/data',
+    'Government Type': 'City',
+    Latitude: '',
+    Longitude: '',
+    ...overrides,
+  }
+}
+
+describe('parseGazetteer', () => {
+  it('keys internal points by GEOID despite the padded last header', async () => {
+    const gazetteer = await loadGazetteer(GAZETTEER_FIXTURE)
+    expect(gazetteer.size).toBe(3)
+    expect(gazetteer.get('5363000')).toEqual({ name: 'Seattle city', latitude: 47.620641, longitude: -122.351482 })
+  })
+
+  it('skips rows without a 7-digit GEOID or numeric coordinates', () => {
+    const text = 'GEOID\tNAME\tINTPTLAT\tINTPTLONG\n123\tShort\t1\t2\n4800001\tBlank\t\t\n'
+    expect(parseGazetteer(text).size).toBe(0)
+  })
+
+  it('returns null when the file is missing', async () => {
+    expect(await loadGazetteer(join(__dirname, 'fixtures', 'missing.txt'))).toBeNull()
+  })
+})
+
+describe('formatGazetteer', () => {
+  it('trims the gazetteer to GEOID and internal point, sorted by GEOID', async () => {
+    const text = formatGazetteer(await loadGazetteer(GAZETTEER_FIXTURE))
+    expect(text.split('\n')[0]).toBe('GEOID\tINTPTLAT\tINTPTLONG')
+    expect(text.split('\n')[1]).toBe('0644000\t34.019394\t-118.410825')
+
+    const places = parseGazetteer(text)
+    expect(places.size).toBe(3)
+    expect(places.get('5363000')).toEqual({ name: '', latitude: 47.620641, longitude: -122.351482 })
+  })
+})
+
+describe('distanceKm', () => {
+  it('measures great-circle distance', () => {
+    // Dallas to Fort Worth is roughly 50 km
+    expect(distanceKm(32.7767, -96.797, 32.7555, -97.3308)).toBeCloseTo(50, -1)
+  })
+})
+
+describe('resolveCoordinates', () => {
+  let gazetteer
+
+  beforeAll(async () => {
+    gazetteer = await loadGazetteer(GAZETTEER_FIXTURE)
+  })
+
+  it('fills missing city coordinates from the gazetteer', () => {
+    const { rows } = resolveCoordinates([row({ Jurisdiction: 'Seattle, WA', 'Jurisdiction ID': '5363000' })], gazetteer)
+    expect(rows[0]).toMatchObject({ Latitude: '47.620641', Longitude: '-122.351482', 'Coordinate Source': 'gazetteer' })
+  })
+
+  it('keeps sheet coordinates and reports the ones far from the gazetteer', () => {
+    const { rows, disagreements } = resolveCoordinates([
+      row({ Jurisdiction: 'Dallas, TX', 'Jurisdiction ID': '4819000', Latitude: '32.7767', Longitude: '-96.797' }),
+      // San Diego's coordinates entered for Los Angeles
+      row({ Jurisdiction: 'Los Angeles, CA', 'Jurisdiction ID': '0644000', Latitude: '32.7157', Longitude: '-117.1611' }),
+    ], gazetteer)
+
+    expect(rows.map((r) => r['Coordinate Source'])).toEqual(['sheet', 'sheet'])
+    expect(rows[1].Latitude).toBe('32.7157')
+    expect(disagreements).toHaveLength(1)
+    expect(disagreements[0]).toMatchObject({ line: 3, jurisdictionId: '0644000', sheet: [32.7157, -117.1611] })
+    expect(disagreements[0].distanceKm).toBeGreaterThan(150)
+  })
+
+  it('tags reports with the CSV lines it is given', () => {
+    const { unresolved } = resolveCoordinates([row({}), row({ 'Jurisdiction ID': '4899999' })], gazetteer, { lines: [2, 5] })
+    expect(unresolved.map((entry) => entry.line)).toEqual([2, 5])
+  })
+
+  it('honors the distance threshold', () => {
+    const rows = [row({ 'Jurisdiction ID': '4819000', Latitude: '32.7767', Longitude: '-96.797' })]
+    expect(resolveCoordinates(rows, gazetteer, { maxDistanceKm: 1 }).disagreements).toHaveLength(1)
+  })
+
+  it('lists cities it cannot place and leaves counties alone', () => {
+    const { rows, unresolved } = resolveCoordinates([
+      row({ Jurisdiction: 'Nowhere, TX', 'Jurisdiction ID': '4899999' }),
+      row({ Jurisdiction: 'Dallas County, TX', 'Jurisdiction ID': '48113', 'Government Type': 'County' }),
+    ], gazetteer)
+
+    expect(unresolved).toEqual([{ line: 2, jurisdiction: 'Nowhere, TX', jurisdictionId: '4899999' }])
+    expect(rows[1]).toMatchObject({ Latitude: '', 'Coordinate Source': '' })
+  })
+
+  it('re-resolves earlier gazetteer fills, or keeps them without a gazetteer', () => {
+    const filled = row({ 'Jurisdiction ID': '5363000', Latitude: '1', Longitude: '2', 'Coordinate Source': 'gazetteer' })
+
+    expect(resolveCoordinates([filled], gazetteer).rows[0].Latitude).toBe('47.620641')
+    expect(resolveCoordinates([filled], null).rows[0]).toEqual(filled)
+  })
+
+  it('summarizes sources', () => {
+    const { rows, disagreements, unresolved } = resolveCoordinates([
+      row({ 'Jurisdiction ID': '5363000' }),
+      row({ 'Jurisdiction ID': '4819000', Latitude: '32.7767', Longitude: '-96.797' }),
+      row({ 'Jurisdiction ID': '4899999' }),
+    ], gazetteer)
+    expect(summarizeCoordinates(rows, disagreements, unresolved))
+      .toEqual({ sheet: 1, gazetteer: 1, unresolved: 1, disagreements: 0 })
+  })
+})
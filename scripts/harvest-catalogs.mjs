@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+import { readFile, writeFile } from 'fs/promises'
+import { dirname, join, resolve } from 'path'
+import { fileURLToPath } from 'url'
+import { normalizeJurisdictionId } from './validate-portals.mjs'
+import {
+  createFixtureFetcher,
+  createRecordingFetcher,
+  fetchJsonLive,
+  groupCatalogResults,
+  harvestCatalog,
+} from './catalog-harvesters.mjs'
+// Runs under vite-node (see package.json), so platforms are detected exactly as in the app
+import { detectPlatform } from '../src/platforms.ts'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+const OUTPUT_DIR = join(__dirname, '..', 'src', 'data')
+const SNAPSHOT_FILE = process.env.PORTALS_SNAPSHOT_FILE || join(OUTPUT_DIR, 'portals.snapshot.json')
+const CATALOG_FILE = process.env.CATALOG_SNAPSHOT_FILE || join(OUTPUT_DIR, 'catalog.snapshot.json')
+
+// --fixtures=<dir>   replay recorded API responses instead of calling portals
+// --record=<dir>     call portals and save each response into <dir>
+// --concurrency=<n>  portals harvested at once (default 4)
+function parseArgs(argv) {
+  const options = { fixtures: null, record: null, concurrency: 4 }
+  argv.forEach((arg) => {
+    const [, key, value] = arg.match(/^--([a-z]+)=(.+)$/) ?? []
+    if (key === 'fixtures') options.fixtures = resolve(value)
+    else if (key === 'record') options.record = resolve(value)
+    else if (key === 'concurrency') options.concurrency = Math.max(1, Number(value) || 1)
+  })
+  return options
+}
+
+async function main() {
+  try {
+    const options = parseArgs(process.argv.slice(2))
+    const fetchJson = options.fixtures ? createFixtureFetcher(options.fixtures)
+      : options.record ? createRecordingFetcher(options.record)
+      : fetchJsonLive
+
+    const rows = JSON.parse(await readFile(SNAPSHOT_FILE, 'utf-8'))
+    const queue = rows.filter((row) => row.URL?.trim())
+
+    console.log(`🔄 Harvesting catalogs for ${queue.length} portals from:`, SNAPSHOT_FILE)
+    if (options.fixtures) console.log('   Replaying fixtures from:', options.fixtures)
+
+    const results = []
+    const summary = { harvested: 0, failed: 0, skipped: 0 }
+
+    const worker = async () => {
+      for (let row = queue.shift(); row !== undefined; row = queue.shift()) {
+        const url = row.URL.trim()
+        const stats = await harvestCatalog(url, detectPlatform(url), fetchJson)
+        if (!stats) {
+          summary.skipped += 1
+          continue
+        }
+
+        results.push({ jurisdictionId: normalizeJurisdictionId(row), url, stats })
+        if (stats.apiAvailable) {
+          summary.harvested += 1
+          console.log(`✅ ${row.Jurisdiction}: ${stats.datasetCount} datasets, most recent update ${stats.lastUpdated ?? 'unknown'}`)
+        } else {
+          summary.failed += 1
+          console.log(`❌ ${row.Jurisdiction}: ${stats.error}`)
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: options.concurrency }, worker))
+
+    const snapshot = {
+      generatedAt: new Date().toISOString(),
+      source: options.fixtures ? 'fixtures' : 'live',
+      summary,
+      jurisdictions: groupCatalogResults(results),
+    }
+
+    await writeFile(CATALOG_FILE, JSON.stringify(snapshot, null, 2), 'utf-8')
+    console.log('✅ Wrote:', CATALOG_FILE)
+    console.log(`📋 ${summary.harvested} harvested, ${summary.failed} failed, ${summary.skipped} skipped (no harvester for platform)`)
+  } catch (error) {
+    console.error('❌ Error harvesting catalogs:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,109 @@
+/**
+ * Portal link checks used by check-portals.mjs. Kept free of file I/O so the
+ * checks can be pointed at a local stub server (see portal-stub-server.mjs).
+ *
+ * Each URL is classified as:
+ *   reachable   2xx without leaving the URL (trailing-slash differences ignored)
+ *   redirected  2xx after following redirects to a different URL
+ *   broken      4xx/5xx, a redirect without a Location header, too many
+ *               redirects, timeout or network error
+ */
+
+export const DEFAULT_OPTIONS = {
+  timeoutMs: 15000,
+  maxRedirects: 5,
+  concurrency: 8,
+  userAgent: 'open-data-dashboard-map link checker',
+}
+
+function sameUrl(a, b) {
+  const strip = (url) => url.replace(/\/+$/, '')
+  return strip(a) === strip(b)
+}
+
+/**
+ * Request a URL, following redirects manually so the chain can be recorded.
+ */
+export async function checkUrl(url, options = {}) {
+  const { timeoutMs, maxRedirects, userAgent } = { ...DEFAULT_OPTIONS, ...options }
+  const started = Date.now()
+  const redirects = []
+  let current = url
+
+  const result = (status, fields) => ({
+    url,
+    status,
+    httpStatus: null,
+    finalUrl: current,
+    redirects,
+    checkedAt: new Date().toISOString(),
+    durationMs: Date.now() - started,
+    ...fields,
+  })
+
+  try {
+    for (;;) {
+      const response = await fetch(current, {
+        method: 'GET',
+        redirect: 'manual',
+        headers: { 'User-Agent': userAgent, Accept: 'text/html,*/*' },
+        signal: AbortSignal.timeout(timeoutMs),
+      })
+      // Only the status matters; don't download the page
+      await response.body?.cancel()
+
+      const location = response.headers.get('location')
+      if (response.status >= 300 && response.status < 400) {
+        if (!location) {
+          return result('broken', { httpStatus: response.status, error: `HTTP ${response.status} without a Location header` })
+        }
+        if (redirects.length >= maxRedirects) {
+          return result('broken', { httpStatus: response.status, error: `More than ${maxRedirects} redirects` })
+        }
+        current = new URL(location, current).href
+        redirects.push(current)
+        continue
+      }
+
+      if (response.status >= 400) {
+        return result('broken', { httpStatus: response.status, error: `HTTP ${response.status}` })
+      }
+
+      const status = redirects.length > 0 && !sameUrl(url, current) ? 'redirected' : 'reachable'
+      return result(status, { httpStatus: response.status })
+    }
+  } catch (error) {
+    const timedOut = error?.name === 'TimeoutError' || error?.name === 'AbortError'
+    return result('broken', {
+      error: timedOut ? `Timed out after ${timeoutMs} ms` : (error?.cause?.code ?? error?.message ?? String(error)),
+    })
+  }
+}
+
+/**
+ * Check URLs with at most `concurrency` requests in flight. Duplicate URLs
+ * are checked once. Returns results keyed by URL.
+ */
+export async function checkUrls(urls, options = {}) {
+  const { concurrency } = { ...DEFAULT_OPTIONS, ...options }
+  const queue = [...new Set(urls.filter(Boolean))]
+  const results = {}
+
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      results[url] = await checkUrl(url, options)
+      options.onResult?.(results[url])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker))
+  return results
+}
+
+export function summarizeResults(results) {
+  const summary = { reachable: 0, redirected: 0, broken: 0 }
+  Object.values(results).forEach((result) => {
+    summary[result.status] += 1
+  })
+  return summary
+}
@@ -0,0 +1,72 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { checkUrl, checkUrls, summarizeResults } from './portal-health.mjs'
+import { startStubServer } from './portal-stub-server.mjs'
+
+let server
+
+beforeAll(async () => {
+  server = await startStubServer()
+})
+
+afterAll(async () => {
+  await server.close()
+})
+
+describe('checkUrl', () => {
+  it('reports a 200 as reachable', async () => {
+    const result = await checkUrl(`${server.url}/ok`)
+    expect(result).toMatchObject({ status: 'reachable', httpStatus: 200, finalUrl: `${server.url}/ok`, redirects: [] })
+  })
+
+  it('ignores a redirect that only adds a trailing slash', async () => {
+    const result = await checkUrl(`${server.url}/dir`)
+    expect(result).toMatchObject({ status: 'reachable', finalUrl: `${server.url}/dir/` })
+  })
+
+  it('follows redirect chains and records each hop', async () => {
+    const result = await checkUrl(`${server.url}/chain`)
+    expect(result.status).toBe('redirected')
+    expect(result.redirects).toEqual([`${server.url}/moved`, `${server.url}/ok`])
+    expect(result.finalUrl).toBe(`${server.url}/ok`)
+  })
+
+  it('reports HTTP errors as broken', async () => {
+    expect(await checkUrl(`${server.url}/missing`)).toMatchObject({ status: 'broken', httpStatus: 404 })
+    expect(await checkUrl(`${server.url}/error`)).toMatchObject({ status: 'broken', httpStatus: 500 })
+  })
+
+  it('reports a redirect without a Location header as broken', async () => {
+    expect(await checkUrl(`${server.url}/no-location`)).toMatchObject({
+      status: 'broken',
+      httpStatus: 302,
+      error: 'HTTP 302 without a Location header',
+    })
+  })
+
+  it('gives up on redirect loops', async () => {
+    const result = await checkUrl(`${server.url}/loop`, { maxRedirects: 3 })
+    expect(result).toMatchObject({ status: 'broken', error: 'More than 3 redirects' })
+    expect(result.redirects).toHaveLength(3)
+  })
+
+  it('times out slow responses', async () => {
+    const result = await checkUrl(`${server.url}/slow`, { timeoutMs: 200 })
+    expect(result).toMatchObject({ status: 'broken', httpStatus: null, error: 'Timed out after 200 ms' })
+  })
+
+  it('reports connection failures as broken', async () => {
+    const result = await checkUrl('http://127.0.0.1:1/')
+    expect(result.status).toBe('broken')
+    expect(result.error).toBeTruthy()
+  })
+})
+
+describe('checkUrls', () => {
+  it('checks each distinct URL once and summarizes the results', async () => {
+    const urls = [`${server.url}/ok`, `${server.url}/ok`, `${server.url}/moved`, `${server.url}/missing`, '']
+    const results = await checkUrls(urls, { concurrency: 2 })
+
+    expect(Object.keys(results).sort()).toEqual([`${server.url}/missing`, `${server.url}/moved`, `${server.url}/ok`])
+    expect(summarizeResults(results)).toEqual({ reachable: 1, redirected: 1, broken: 1 })
+  })
+})
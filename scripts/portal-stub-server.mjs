@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+import { createServer } from 'http'
+import { fileURLToPath } from 'url'
+
+/**
+ * Local HTTP server with one route per link-check outcome, for exercising
+ * check-portals.mjs without touching real portals:
+ *
+ *   /ok               200
+ *   /dir              301 → /dir/ (trailing slash only, still "reachable")
+ *   /moved            301 → /ok
+ *   /chain            302 → /moved → /ok
+ *   /loop             302 → /loop (never resolves)
+ *   /no-location      302 without a Location header
+ *   /missing          404
+ *   /error            500
+ *   /slow             200 after STUB_SLOW_MS (default 5000)
+ */
+const SLOW_MS = Number(process.env.STUB_SLOW_MS || 5000)
+
+function redirect(res, location, status = 302) {
+  res.writeHead(status, { Location: location })
+  res.end()
+}
+
+function handle(req, res) {
+  const path = new URL(req.url, 'http://localhost').pathname
+  switch (path) {
+    case '/ok':
+    case '/dir/':
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+      res.end('<h1>Open data</h1>')
+      return
+    case '/dir':
+      return redirect(res, '/dir/', 301)
+    case '/moved':
+      return redirect(res, '/ok', 301)
+    case '/chain':
+      return redirect(res, '/moved')
+    case '/loop':
+      return redirect(res, '/loop')
+    case '/no-location':
+      res.writeHead(302)
+      res.end()
+      return
+    case '/error':
+      res.writeHead(500)
+      res.end()
+      return
+    case '/slow': {
+      const timer = setTimeout(() => {
+        res.writeHead(200)
+        res.end()
+      }, SLOW_MS)
+      req.on('close', () => clearTimeout(timer))
+      return
+    }
+    default:
+      res.writeHead(404)
+      res.end()
+  }
+}
+
+/**
+ * Start the stub server; port 0 picks a free port. Resolves to its base URL
+ * and a close function.
+ */
+export function startStubServer(port = 0) {
+  const server = createServer(handle)
+  return new Promise((resolve) => {
+    server.listen(port, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${server.address().port}`,
+        close: () => new Promise((done) => {
+          server.closeAllConnections()
+          server.close(done)
+        }),
+      })
+    })
+  })
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const { url } = await startStubServer(Number(process.env.STUB_PORT || 4599))
+  console.log(`🧪 Stub portal server listening on ${url} (Ctrl+C to stop)`)
+}
@@ -0,0 +1,48 @@
+#!/usr/bin/env node
+
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { formatGazetteer, parseGazetteer } from './gazetteer.mjs'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+// Census place gazetteer, the "Places" national file from the Census Gazetteer
+// Files. Not committed (it is several MB); download and unzip it here first.
+const SOURCE_FILE = process.env.GAZETTEER_SOURCE_FILE ||
+  join(__dirname, '..', 'data', 'census', '2024_Gaz_place_national.txt')
+
+const DOWNLOAD_URL = 'https://www2.census.gov/geo/docs/maps-data/data/gazetteer/2024_Gazetteer/2024_Gaz_place_national.zip'
+
+const OUTPUT_DIR = join(__dirname, '..', 'data')
+const OUTPUT_FILE = join(OUTPUT_DIR, 'place-coordinates.tsv')
+
+async function main() {
+  try {
+    console.log('🔄 Reading gazetteer from:', SOURCE_FILE)
+    const text = await readFile(SOURCE_FILE, 'utf-8').catch((error) => {
+      if (error.code === 'ENOENT') {
+        throw new Error(`Gazetteer not found at ${SOURCE_FILE}; download and unzip ${DOWNLOAD_URL}`)
+      }
+      throw error
+    })
+    const places = parseGazetteer(text)
+    if (places.size === 0) {
+      throw new Error(`No places with a 7-digit GEOID and internal point in ${SOURCE_FILE}`)
+    }
+
+    await mkdir(OUTPUT_DIR, { recursive: true })
+    const lookup = formatGazetteer(places)
+    await writeFile(OUTPUT_FILE, lookup, 'utf-8')
+    console.log('✅ Wrote:', OUTPUT_FILE)
+
+    console.log('✨ Gazetteer lookup complete!')
+    console.log(`   Places: ${places.size}`)
+    console.log(`   Size: ${(Buffer.byteLength(lookup) / 1024).toFixed(0)} KB`)
+  } catch (error) {
+    console.error('❌ Error trimming gazetteer:', error)
+    process.exit(1)
+  }
+}
+
+main()
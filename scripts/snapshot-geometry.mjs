@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+
+import { readFile, writeFile, mkdir } from 'fs/promises'
+import { createHash } from 'crypto'
+import { createRequire } from 'module'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { quantize } from 'topojson-client'
+import { presimplify, quantile, simplify } from 'topojson-simplify'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const require = createRequire(import.meta.url)
+
+// Source TopoJSON (Census cartographic boundaries packaged by us-atlas).
+// Can be overridden with local files via environment variables.
+const SOURCE_FILE = process.env.COUNTIES_TOPOJSON_PATH ||
+  require.resolve('us-atlas/counties-10m.json')
+const STATES_SOURCE_FILE = process.env.STATES_TOPOJSON_PATH ||
+  require.resolve('us-atlas/states-10m.json')
+
+// Fraction of arc points to drop (by planar triangle area), 0 keeps everything
+const SIMPLIFY_QUANTILE = Number(process.env.COUNTIES_SIMPLIFY_QUANTILE ?? 0.5)
+const STATES_SIMPLIFY_QUANTILE = Number(process.env.STATES_SIMPLIFY_QUANTILE ?? 0.5)
+
+// Quantization grid size; 1e5 is well below a pixel at the app's max zoom
+const QUANTIZATION = 1e5
+
+const ASSET_DIR = join(__dirname, '..', 'public', 'data')
+const META_DIR = join(__dirname, '..', 'src', 'data')
+
+// One bundled layer per TopoJSON object: counties (5-digit GEOIDs) and states (2-digit FIPS)
+const LAYERS = [
+  {
+    object: 'counties',
+    sourceFile: SOURCE_FILE,
+    customSource: Boolean(process.env.COUNTIES_TOPOJSON_PATH),
+    idDigits: 5,
+    simplifyQuantile: SIMPLIFY_QUANTILE,
+    assetFile: join(ASSET_DIR, 'counties.topo.json'),
+    metaFile: join(META_DIR, 'counties.geometry.meta.json'),
+  },
+  {
+    object: 'states',
+    sourceFile: STATES_SOURCE_FILE,
+    customSource: Boolean(process.env.STATES_TOPOJSON_PATH),
+    idDigits: 2,
+    simplifyQuantile: STATES_SIMPLIFY_QUANTILE,
+    assetFile: join(ASSET_DIR, 'states.topo.json'),
+    metaFile: join(META_DIR, 'states.geometry.meta.json'),
+  },
+]
+
+function sourceVersion(layer) {
+  if (layer.customSource) return 'custom'
+  const pkg = require('us-atlas/package.json')
+  return `us-atlas@${pkg.version}`
+}
+
+async function snapshotLayer(layer) {
+  const { object, sourceFile, idDigits, simplifyQuantile, assetFile, metaFile } = layer
+  console.log(`🔄 Reading ${object} geometry from:`, sourceFile)
+
+  const source = JSON.parse(await readFile(sourceFile, 'utf-8'))
+  if (source.type !== 'Topology' || !source.objects?.[object]) {
+    throw new Error(`Source must be a TopoJSON topology with a "${object}" object`)
+  }
+
+  // Keep only this object; the other outlines share its arcs
+  const objectOnly = {
+    ...source,
+    objects: { [object]: source.objects[object] },
+  }
+
+  // Simplify arcs (topology-preserving, so neighbouring areas stay aligned)
+  const presimplified = presimplify(objectOnly)
+  const minWeight = simplifyQuantile > 0 ? quantile(presimplified, simplifyQuantile) : 0
+  const simplified = quantize(simplify(presimplified, minWeight), QUANTIZATION)
+
+  // Normalize feature ids to fixed-length GEOID strings
+  simplified.objects[object].geometries.forEach((geometry) => {
+    geometry.id = String(geometry.id).padStart(idDigits, '0')
+  })
+
+  const featureCount = simplified.objects[object].geometries.length
+  console.log(`📊 Simplified ${featureCount} ${object} (quantile ${simplifyQuantile})`)
+
+  // Write the geometry asset (compact, it is served as a static file)
+  const assetText = JSON.stringify(simplified)
+  await writeFile(assetFile, assetText, 'utf-8')
+  console.log('✅ Wrote:', assetFile)
+
+  // Write metadata JSON; the hash doubles as a cache-busting version
+  const meta = {
+    generatedAt: new Date().toISOString(),
+    source: sourceVersion(layer),
+    simplifyQuantile,
+    featureCount,
+    bytes: Buffer.byteLength(assetText),
+    sha256: createHash('sha256').update(assetText).digest('hex'),
+  }
+
+  await writeFile(
+    metaFile,
+    JSON.stringify(meta, null, 2),
+    'utf-8'
+  )
+  console.log('✅ Wrote:', metaFile)
+  console.log(`   Size: ${(meta.bytes / 1024).toFixed(0)} KB`)
+  console.log(`   SHA-256: ${meta.sha256}`)
+}
+
+async function main() {
+  try {
+    // Ensure output directories exist
+    await mkdir(ASSET_DIR, { recursive: true })
+    await mkdir(META_DIR, { recursive: true })
+
+    for (const layer of LAYERS) {
+      await snapshotLayer(layer)
+    }
+
+    console.log('✨ Geometry generation complete!')
+  } catch (error) {
+    console.error('❌ Error generating geometry:', error)
+    process.exit(1)
+  }
+}
+
+main()
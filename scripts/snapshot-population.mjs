@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+
+import { readFile, writeFile, mkdir, access } from 'fs/promises'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import Papa from 'papaparse'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+
+// Census Vintage 2024 county estimates (co-est2024-alldata.csv)
+const COUNTY_CSV = process.env.COUNTY_POPULATION_CSV ||
+  join(__dirname, '..', 'public', 'data', 'co-est2024-alldata.csv')
+
+// Census Vintage 2024 city and town estimates (sub-est2024_all.csv), optional
+const PLACE_CSV = process.env.PLACE_POPULATION_CSV ||
+  join(__dirname, '..', 'public', 'data', 'sub-est2024_all.csv')
+
+const YEARS = [2020, 2021, 2022, 2023, 2024]
+
+const OUTPUT_DIR = join(__dirname, '..', 'src', 'data')
+const SNAPSHOT_FILE = join(OUTPUT_DIR, 'population.snapshot.json')
+const META_FILE = join(OUTPUT_DIR, 'population.snapshot.meta.json')
+
+async function exists(path) {
+  try {
+    await access(path)
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function parseCsv(path) {
+  // Census files are Latin-1 encoded (e.g., "Doña Ana County")
+  const csvText = await readFile(path, 'latin1')
+  const parsed = Papa.parse(csvText, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: false  // Keep all values as strings to preserve leading zeros
+  })
+
+  if (parsed.errors.length > 0) {
+    console.warn('⚠️  Parsing warnings:', parsed.errors.slice(0, 10))
+  }
+
+  return parsed.data
+}
+
+function estimates(row) {
+  return YEARS.map((year) => Number(row[`POPESTIMATE${year}`]))
+}
+
+async function main() {
+  const states = {}
+  const counties = {}
+  const places = {}
+  const placeNames = {}
+
+  try {
+    console.log('🔄 Reading county estimates from:', COUNTY_CSV)
+    const countyRows = await parseCsv(COUNTY_CSV)
+
+    countyRows.forEach((row) => {
+      // SUMLEV 040 = state, 050 = county
+      if (row.SUMLEV === '040') {
+        states[row.STATE] = estimates(row)
+      } else if (row.SUMLEV === '050') {
+        counties[`${row.STATE}${row.COUNTY}`] = estimates(row)
+      }
+    })
+    console.log(`📊 Parsed ${Object.keys(counties).length} counties, ${Object.keys(states).length} states`)
+
+    if (await exists(PLACE_CSV)) {
+      console.log('🔄 Reading place estimates from:', PLACE_CSV)
+      const placeRows = await parseCsv(PLACE_CSV)
+
+      placeRows.forEach((row) => {
+        // SUMLEV 162 = incorporated place (whole place, not a county part)
+        if (row.SUMLEV === '162') {
+          places[`${row.STATE}${row.PLACE}`] = estimates(row)
+          placeNames[`${row.STATE}${row.PLACE}`] = row.NAME
+        }
+      })
+      console.log(`📊 Parsed ${Object.keys(places).length} places`)
+    } else {
+      console.warn('⚠️  Place estimates not found, skipping:', PLACE_CSV)
+      console.warn('   Cities get no numeric population; their bucket comes from the sheet "Population Size" label')
+    }
+
+    // Ensure output directory exists
+    await mkdir(OUTPUT_DIR, { recursive: true })
+
+    // Write snapshot JSON (one line per area keeps diffs readable)
+    const lines = (group) => Object.entries(group)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([geoid, values]) => `    ${JSON.stringify(geoid)}: ${JSON.stringify(values)}`)
+      .join(',\n')
+
+    const snapshotText = [
+      '{',
+      `  "years": ${JSON.stringify(YEARS)},`,
+      `  "states": {\n${lines(states)}\n  },`,
+      `  "counties": {\n${lines(counties)}\n  },`,
+      `  "places": {${Object.keys(places).length > 0 ? `\n${lines(places)}\n  ` : ''}},`,
+      // Names for the coverage gap table; counties are named from their geometry
+      `  "placeNames": {${Object.keys(placeNames).length > 0 ? `\n${lines(placeNames)}\n  ` : ''}}`,
+      '}',
+      '',
+    ].join('\n')
+
+    await writeFile(SNAPSHOT_FILE, snapshotText, 'utf-8')
+    console.log('✅ Wrote:', SNAPSHOT_FILE)
+
+    // Write metadata JSON
+    const meta = {
+      generatedAt: new Date().toISOString(),
+      years: YEARS,
+      countySource: 'co-est2024-alldata.csv',
+      placeSource: Object.keys(places).length > 0 ? 'sub-est2024_all.csv' : null,
+      countyCount: Object.keys(counties).length,
+      placeCount: Object.keys(places).length,
+    }
+
+    await writeFile(
+      META_FILE,
+      JSON.stringify(meta, null, 2),
+      'utf-8'
+    )
+    console.log('✅ Wrote:', META_FILE)
+
+    console.log('✨ Population snapshot complete!')
+    console.log(`   Generated at: ${meta.generatedAt}`)
+
+  } catch (error) {
+    console.error('❌ Error generating population snapshot:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -1,9 +1,11 @@
 #!/usr/bin/env node
 
-import { writeFile, mkdir } from 'fs/promises'
-import { dirname, join } from 'path'
+import { readFile, writeFile, mkdir, readdir } from 'fs/promises'
+import { basename, dirname, join } from 'path'
 import { fileURLToPath } from 'url'
-import Papa from 'papaparse'
+import { loadValidationContext, parseSheetCsv, passesValidation, validateRows, summarizeIssues } from './validate-portals.mjs'
+import { diffSnapshots } from './diff-portals.mjs'
+import { DEFAULT_MAX_DISTANCE_KM, loadGazetteer, resolveCoordinates, summarizeCoordinates } from './gazetteer.mjs'
 
 const __dirname = dirname(fileURLToPath(import.meta.url))
 
@@ -14,40 +16,201 @@ const CSV_URL = process.env.PORTALS_CSV_URL ||
 const OUTPUT_DIR = join(__dirname, '..', 'src', 'data')
 const SNAPSHOT_FILE = join(OUTPUT_DIR, 'portals.snapshot.json')
 const META_FILE = join(OUTPUT_DIR, 'portals.snapshot.meta.json')
+const REPORT_FILE = join(OUTPUT_DIR, 'portals.snapshot.report.json')
+const CHANGES_FILE = join(OUTPUT_DIR, 'portals.snapshot.changes.json')
+const COORDINATES_FILE = join(OUTPUT_DIR, 'portals.coordinates.report.json')
+const HISTORY_DIR = join(OUTPUT_DIR, 'history')
+const HISTORY_PATTERN = /^portals\.(\d{4}-\d{2}-\d{2})\.json$/
 
-async function main() {
+// Place internal points trimmed from the Census gazetteer (npm run snapshot:gazetteer),
+// used to fill in missing city coordinates
+const GAZETTEER_FILE = process.env.GAZETTEER_PLACE_FILE ||
+  join(__dirname, '..', 'data', 'place-coordinates.tsv')
+
+// Validation mode:
+//   default        fail on errors, allow warnings
+//   --strict       fail on errors or warnings
+//   --warn-only    never fail; report only
+// --validate-only checks the existing snapshot without fetching or writing it
+// --history-only records the existing snapshot in history and recomputes changes
+// --coordinates-only re-resolves coordinates in the existing snapshot
+// --max-distance-km=<n> reports sheet coordinates this far from the gazetteer (default 25)
+const args = new Set(process.argv.slice(2))
+const MODE = args.has('--strict') ? 'strict' : args.has('--warn-only') ? 'warn-only' : 'default'
+const VALIDATE_ONLY = args.has('--validate-only')
+const HISTORY_ONLY = args.has('--history-only')
+const COORDINATES_ONLY = args.has('--coordinates-only')
+const MAX_DISTANCE_KM = Number(
+  process.argv.slice(2).find((arg) => arg.startsWith('--max-distance-km='))?.split('=')[1] ?? DEFAULT_MAX_DISTANCE_KM
+)
+
+async function fetchRows() {
   console.log('🔄 Fetching CSV from:', CSV_URL)
-  
+
+  const response = await fetch(CSV_URL)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch CSV: ${response.status} ${response.statusText}`)
+  }
+
+  const csvText = await response.text()
+  console.log('✅ CSV fetched successfully')
+
+  // Parse with Papa Parse, keeping each row's CSV line for the reports
+  const parsed = parseSheetCsv(csvText)
+
+  if (parsed.errors.length > 0) {
+    console.warn('⚠️  Parsing warnings:', parsed.errors)
+  }
+
+  return parsed
+}
+
+/**
+ * Validate rows, write the report and decide whether the run should fail.
+ */
+async function validate(rows, sourceUrl, lines) {
+  const context = await loadValidationContext()
+  const issues = validateRows(rows, context, lines)
+  const summary = summarizeIssues(issues)
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    sourceUrl,
+    mode: MODE,
+    rowCount: rows.length,
+    summary,
+    issues,
+  }
+
+  await writeFile(REPORT_FILE, JSON.stringify(report, null, 2), 'utf-8')
+  console.log('✅ Wrote:', REPORT_FILE)
+
+  issues.forEach((issue) => {
+    const icon = issue.severity === 'error' ? '❌' : '⚠️ '
+    console.log(`${icon} line ${issue.line} [${issue.code}] ${issue.jurisdiction || issue.jurisdictionId}: ${issue.message}`)
+  })
+  console.log(`📋 Validation: ${summary.errors} errors, ${summary.warnings} warnings (mode: ${MODE})`)
+
+  return passesValidation(summary, MODE)
+}
+
+/**
+ * Fill in missing city coordinates from the gazetteer and write the
+ * coordinates report (sources, unresolved cities, sheet/gazetteer disagreements).
+ */
+async function resolveAndReport(rows, lines) {
+  const gazetteer = await loadGazetteer(GAZETTEER_FILE)
+  if (gazetteer) {
+    console.log(`📍 Read ${gazetteer.size} places from:`, GAZETTEER_FILE)
+  } else {
+    console.warn('⚠️  Gazetteer not found; coordinates come from the sheet only:', GAZETTEER_FILE)
+  }
+
+  const { rows: resolved, disagreements, unresolved } = resolveCoordinates(rows, gazetteer, {
+    maxDistanceKm: MAX_DISTANCE_KM,
+    lines,
+  })
+  const summary = summarizeCoordinates(resolved, disagreements, unresolved)
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    gazetteerSource: gazetteer ? basename(GAZETTEER_FILE) : null,
+    maxDistanceKm: MAX_DISTANCE_KM,
+    summary,
+    disagreements,
+    unresolved,
+  }
+  await writeFile(COORDINATES_FILE, JSON.stringify(report, null, 2), 'utf-8')
+  console.log('✅ Wrote:', COORDINATES_FILE)
+
+  disagreements.forEach((entry) => {
+    console.log(`⚠️  line ${entry.line} ${entry.jurisdiction}: sheet coordinates are ${entry.distanceKm} km from the gazetteer`)
+  })
+  console.log(`📍 Coordinates: ${summary.sheet} from the sheet, ${summary.gazetteer} from the gazetteer, ` +
+    `${summary.unresolved} cities unresolved, ${summary.disagreements} disagreements over ${MAX_DISTANCE_KM} km`)
+
+  return resolved
+}
+
+/**
+ * Keep a dated copy of the snapshot and diff it against the latest earlier one.
+ * Re-running on the same day replaces that day's copy, so the diff always
+ * covers the previous run on an earlier date.
+ */
+async function writeHistoryAndChanges(rows, generatedAt) {
+  await mkdir(HISTORY_DIR, { recursive: true })
+
+  const date = generatedAt.slice(0, 10)
+  const historyFile = join(HISTORY_DIR, `portals.${date}.json`)
+  await writeFile(historyFile, JSON.stringify(rows, null, 2), 'utf-8')
+  console.log('✅ Wrote:', historyFile)
+
+  const previousDate = (await readdir(HISTORY_DIR))
+    .map((name) => name.match(HISTORY_PATTERN)?.[1])
+    .filter((d) => d && d < date)
+    .sort()
+    .pop()
+
+  const previousRows = previousDate
+    ? JSON.parse(await readFile(join(HISTORY_DIR, `portals.${previousDate}.json`), 'utf-8'))
+    : rows
+
+  const changes = {
+    generatedAt,
+    previousSnapshot: previousDate ?? null,
+    currentSnapshot: date,
+    ...diffSnapshots(previousRows, rows),
+  }
+
+  await writeFile(CHANGES_FILE, JSON.stringify(changes, null, 2), 'utf-8')
+  console.log('✅ Wrote:', CHANGES_FILE)
+  console.log(`   Since ${previousDate ?? '(no earlier snapshot)'}: ` +
+    `${changes.added.length} added, ${changes.changed.length} changed, ${changes.removed.length} removed`)
+}
+
+async function main() {
   try {
-    // Fetch the CSV
-    const response = await fetch(CSV_URL)
-    if (!response.ok) {
-      throw new Error(`Failed to fetch CSV: ${response.status} ${response.statusText}`)
-    }
-    
-    const csvText = await response.text()
-    console.log('✅ CSV fetched successfully')
-    
-    // Parse with Papa Parse
-    const parsed = Papa.parse(csvText, {
-      header: true,
-      skipEmptyLines: true,
-      dynamicTyping: false  // Keep all values as strings to preserve leading zeros
-    })
-    
-    if (parsed.errors.length > 0) {
-      console.warn('⚠️  Parsing warnings:', parsed.errors)
-    }
-    
-    console.log(`📊 Parsed ${parsed.data.length} rows`)
-    
     // Ensure output directory exists
     await mkdir(OUTPUT_DIR, { recursive: true })
+
+    if (VALIDATE_ONLY) {
+      const rows = JSON.parse(await readFile(SNAPSHOT_FILE, 'utf-8'))
+      const meta = JSON.parse(await readFile(META_FILE, 'utf-8'))
+      console.log(`📊 Validating ${rows.length} rows from:`, SNAPSHOT_FILE)
+      const passed = await validate(rows, meta.sourceUrl)
+      process.exit(passed ? 0 : 1)
+    }
+
+    if (COORDINATES_ONLY) {
+      const rows = JSON.parse(await readFile(SNAPSHOT_FILE, 'utf-8'))
+      const resolved = await resolveAndReport(rows)
+      await writeFile(SNAPSHOT_FILE, JSON.stringify(resolved, null, 2), 'utf-8')
+      console.log('✅ Wrote:', SNAPSHOT_FILE)
+      return
+    }
+
+    if (HISTORY_ONLY) {
+      const rows = JSON.parse(await readFile(SNAPSHOT_FILE, 'utf-8'))
+      const meta = JSON.parse(await readFile(META_FILE, 'utf-8'))
+      await writeHistoryAndChanges(rows, meta.generatedAt)
+      return
+    }
+
+    const { rows: fetchedRows, lines } = await fetchRows()
+    console.log(`📊 Parsed ${fetchedRows.length} rows`)
+
+    const rows = await resolveAndReport(fetchedRows, lines)
+
+    const passed = await validate(rows, CSV_URL, lines)
+    if (!passed) {
+      console.error('❌ Validation failed; snapshot not written. See', REPORT_FILE)
+      process.exit(1)
+    }
     
     // Write snapshot JSON
     await writeFile(
       SNAPSHOT_FILE,
-      JSON.stringify(parsed.data, null, 2),
+      JSON.stringify(rows, null, 2),
       'utf-8'
     )
     console.log('✅ Wrote:', SNAPSHOT_FILE)
@@ -56,7 +219,7 @@ async function main() {
     const meta = {
       generatedAt: new Date().toISOString(),
       sourceUrl: CSV_URL,
-      recordCount: parsed.data.length
+      recordCount: rows.length
     }
     
     await writeFile(
@@ -65,6 +228,8 @@ async function main() {
       'utf-8'
     )
     console.log('✅ Wrote:', META_FILE)
+
+    await writeHistoryAndChanges(rows, meta.generatedAt)
     
     console.log('✨ Snapshot generation complete!')
     console.log(`   Generated at: ${meta.generatedAt}`)
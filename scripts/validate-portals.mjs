@@ -0,0 +1,260 @@
+import { readFileSync } from 'fs'
+import { readFile } from 'fs/promises'
+import { createRequire } from 'module'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+import { feature } from 'topojson-client'
+import Papa from 'papaparse'
+
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const require = createRequire(import.meta.url)
+
+const POPULATION_BUCKETS_FILE = join(__dirname, '..', 'src', 'populationBuckets.json')
+const KINDS_FILE = join(__dirname, '..', 'src', 'jurisdictionKinds.json')
+
+// How far (in degrees) a city may sit outside its state's bounding box
+const STATE_MARGIN_DEGREES = 0.5
+
+const kindConfig = JSON.parse(readFileSync(KINDS_FILE, 'utf-8'))
+
+/**
+ * The row's kind and GEOID scheme from jurisdictionKinds.json (mirrors
+ * getJurisdictionKind in jurisdictionKinds.ts): an explicit Jurisdiction
+ * Kind, or the first kind listing one of its Government Type values.
+ */
+export function getRowScheme(row) {
+  const explicit = row['Jurisdiction Kind']?.trim().toLowerCase() || ''
+  const types = (row['Government Type'] || '').split(',').map((type) => type.trim().toLowerCase())
+  const kind = kindConfig.kinds.find((candidate) => candidate.id === explicit) ??
+    kindConfig.kinds.find((candidate) => candidate.governmentTypes.some((type) => types.includes(type.toLowerCase()))) ??
+    kindConfig.kinds.find((candidate) => candidate.id === 'agency')
+  const scheme = kindConfig.schemes.find((candidate) => candidate.id === kind.geoidScheme)
+  return { kind, scheme }
+}
+
+function cleanId(raw) {
+  return String(raw ?? '').trim().replace(/^'+/, '')
+}
+
+/**
+ * Jurisdiction ID as the app sees it: apostrophes stripped and padded for its Government Type.
+ */
+export function normalizeJurisdictionId(row) {
+  const { scheme } = getRowScheme(row)
+  const id = cleanId(row['Jurisdiction ID'])
+  return scheme.digits === null ? id : id.padStart(scheme.digits, '0')
+}
+
+function bboxOf(geometry, shiftLongitude = (lon) => lon) {
+  const box = [Infinity, Infinity, -Infinity, -Infinity]
+  const visit = (coords) => {
+    if (typeof coords[0] === 'number') {
+      const lon = shiftLongitude(coords[0])
+      box[0] = Math.min(box[0], lon)
+      box[1] = Math.min(box[1], coords[1])
+      box[2] = Math.max(box[2], lon)
+      box[3] = Math.max(box[3], coords[1])
+    } else {
+      coords.forEach(visit)
+    }
+  }
+  visit(geometry.coordinates)
+  // Alaska's Aleutians cross the antimeridian; measure it in 0-360° longitudes instead
+  if (box[2] - box[0] > 180 && shiftLongitude(-1) === -1) {
+    return bboxOf(geometry, (lon) => (lon < 0 ? lon + 360 : lon))
+  }
+  return box
+}
+
+function inBox(box, lon, lat, margin = 0) {
+  const x = box[2] > 180 && lon < 0 ? lon + 360 : lon
+  return x >= box[0] - margin && x <= box[2] + margin &&
+    lat >= box[1] - margin && lat <= box[3] + margin
+}
+
+/**
+ * Load reference data used by the checks: state bounding boxes and valid
+ * county GEOIDs (from us-atlas), and known population labels.
+ */
+export async function loadValidationContext() {
+  const statesTopology = require('us-atlas/states-10m.json')
+  const countiesTopology = require('us-atlas/counties-10m.json')
+
+  const stateBoxes = new Map()
+  feature(statesTopology, statesTopology.objects.states).features.forEach((f) => {
+    stateBoxes.set(String(f.id), { name: f.properties.name, bbox: bboxOf(f.geometry) })
+  })
+
+  const countyIds = new Set(
+    countiesTopology.objects.counties.geometries.map((g) => String(g.id).padStart(5, '0'))
+  )
+
+  const buckets = JSON.parse(await readFile(POPULATION_BUCKETS_FILE, 'utf-8'))
+  const populationLabels = new Set(buckets.map((bucket) => bucket.label))
+
+  return { stateBoxes, countyIds, populationLabels }
+}
+
+/**
+ * Parse the sheet CSV. Along with the rows, returns the CSV line each row
+ * starts on (header is line 1), worked out from Papa Parse's cursor so
+ * quoted cells spanning several lines and skipped empty lines are counted.
+ */
+export function parseSheetCsv(text) {
+  const rows = []
+  const lines = []
+  const errors = []
+  let position = 0
+  let line = 1
+
+  Papa.parse(text, {
+    header: true,
+    skipEmptyLines: true,
+    dynamicTyping: false, // Keep all values as strings to preserve leading zeros
+    step: ({ data, errors: rowErrors, meta }) => {
+      // The cursor is just past the row's line break; count lines up to its last character
+      const end = text[meta.cursor - 1] === '\n' ? meta.cursor - 1 : meta.cursor
+      for (; position < end; position++) {
+        if (text[position] === '\n') line++
+      }
+      const embedded = Object.values(data).join('').split('\n').length - 1
+      rows.push(data)
+      lines.push(line - embedded)
+      errors.push(...rowErrors)
+    },
+  })
+
+  return { rows, lines, errors }
+}
+
+/**
+ * Validate parsed sheet rows. Returns a list of issues, each tagged with the
+ * CSV line number (header is line 1), a severity and a stable check code.
+ * `lines` comes from parseSheetCsv; rows read back from the JSON snapshot
+ * have no CSV, so their position is used instead.
+ */
+export function validateRows(rows, context, lines = rows.map((_, index) => index + 2)) {
+  const { stateBoxes, countyIds, populationLabels } = context
+  const issues = []
+  const rowsById = new Map()
+  const rowsByUrl = new Map()
+
+  rows.forEach((row, index) => {
+    const line = lines[index]
+    const jurisdiction = row.Jurisdiction?.trim() || ''
+    const rawId = cleanId(row['Jurisdiction ID'])
+    const url = row.URL?.trim() || ''
+    const governmentType = row['Government Type']?.trim() || ''
+    const populationSize = row['Population Size']?.trim() || ''
+
+    const report = (severity, code, message) => {
+      issues.push({ line, jurisdiction, jurisdictionId: rawId, severity, code, message })
+    }
+
+    if (!rawId) report('error', 'missing-id', 'Jurisdiction ID is empty')
+    if (!url) report('error', 'missing-url', 'URL is empty')
+
+    // GEOID format and ID length for the row's kind; other public agencies have no fixed format
+    const { kind, scheme } = getRowScheme(row)
+    const expectedLength = scheme.digits
+    const id = normalizeJurisdictionId(row)
+    if (rawId && expectedLength !== null && !/^\d+$/.test(rawId)) {
+      report('error', 'invalid-fips', `Jurisdiction ID "${rawId}" is not numeric`)
+    } else if (rawId && expectedLength !== null) {
+      if (id.length !== expectedLength) {
+        report('error', 'id-length-mismatch',
+          `Government Type "${governmentType}" expects a ${expectedLength}-digit ${scheme.label} ID, got ${rawId.length} digits`)
+      } else if (rawId.length !== expectedLength) {
+        report('warning', 'id-missing-leading-zeros',
+          `Jurisdiction ID "${rawId}" was padded to "${id}"`)
+      }
+
+      if (id.length === expectedLength && scheme.statePrefix) {
+        const stateFips = id.slice(0, 2)
+        if (!stateBoxes.has(stateFips)) {
+          report('error', 'invalid-fips', `State FIPS "${stateFips}" does not exist`)
+        } else if (scheme.id === 'county' && !countyIds.has(id)) {
+          report('error', 'invalid-fips', `County FIPS "${id}" does not exist`)
+        }
+      }
+    }
+
+    // Coordinates
+    const hasLat = row.Latitude !== undefined && String(row.Latitude).trim() !== ''
+    const hasLon = row.Longitude !== undefined && String(row.Longitude).trim() !== ''
+    if (hasLat || hasLon) {
+      const lat = Number(row.Latitude)
+      const lon = Number(row.Longitude)
+      if (!hasLat || !hasLon || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+        report('error', 'invalid-coordinates', `Coordinates "${row.Latitude}, ${row.Longitude}" are not numeric`)
+      } else {
+        const insideUs = Array.from(stateBoxes.values()).some(({ bbox }) => inBox(bbox, lon, lat))
+        const validId = /^\d+$/.test(rawId) && id.length === expectedLength
+        const state = scheme.statePrefix && validId ? stateBoxes.get(id.slice(0, 2)) : undefined
+        if (!insideUs) {
+          report('error', 'coordinates-outside-us', `Coordinates ${lat}, ${lon} are outside the United States`)
+        } else if (state && !inBox(state.bbox, lon, lat, STATE_MARGIN_DEGREES)) {
+          report('warning', 'coordinates-outside-state', `Coordinates ${lat}, ${lon} are far from ${state.name}`)
+        }
+      }
+    } else if (kind.shape === 'point') {
+      report('warning', 'missing-coordinates',
+        `${governmentType || 'Row'} has no Latitude/Longitude and will not appear on the map`)
+    }
+
+    if (populationSize && !populationLabels.has(populationSize)) {
+      report('warning', 'unknown-population-label', `Population Size "${populationSize}" is not a known bucket label`)
+    } else if (!populationSize) {
+      report('warning', 'unknown-population-label', 'Population Size is empty')
+    }
+
+    if (rawId) rowsById.set(id, [...(rowsById.get(id) ?? []), line])
+    if (url) rowsByUrl.set(url, [...(rowsByUrl.get(url) ?? []), line])
+  })
+
+  // Duplicates are warnings: multiple dashboards per jurisdiction are supported
+  rowsById.forEach((lines, id) => {
+    if (lines.length > 1) {
+      issues.push({
+        line: lines[0], jurisdiction: '', jurisdictionId: id, severity: 'warning',
+        code: 'duplicate-id', message: `Jurisdiction ID "${id}" appears on lines ${lines.join(', ')}`,
+      })
+    }
+  })
+  rowsByUrl.forEach((lines, url) => {
+    if (lines.length > 1) {
+      issues.push({
+        line: lines[0], jurisdiction: '', jurisdictionId: '', severity: 'warning',
+        code: 'duplicate-url', message: `URL "${url}" appears on lines ${lines.join(', ')}`,
+      })
+    }
+  })
+
+  return issues.sort((a, b) => a.line - b.line)
+}
+
+/**
+ * Whether a run passes in the given mode: 'default' fails on errors,
+ * 'strict' on errors or warnings, and 'warn-only' never fails.
+ */
+export function passesValidation(summary, mode) {
+  if (mode === 'warn-only') return true
+  if (mode === 'strict') return summary.errors === 0 && summary.warnings === 0
+  return summary.errors === 0
+}
+
+/**
+ * Summarize issues for the machine-readable report.
+ */
+export function summarizeIssues(issues) {
+  const byCode = {}
+  issues.forEach((issue) => {
+    byCode[issue.code] = (byCode[issue.code] ?? 0) + 1
+  })
+
+  return {
+    errors: issues.filter((issue) => issue.severity === 'error').length,
+    warnings: issues.filter((issue) => issue.severity === 'warning').length,
+    byCode,
+  }
+}
@@ -0,0 +1,138 @@
+import { beforeAll, describe, expect, it } from 'vitest'
+import {
+  loadValidationContext,
+  parseSheetCsv,
+  passesValidation,
+  summarizeIssues,
+  validateRows,
+} from './validate-portals.mjs'
+
+// A clean sheet row for Dallas, TX; each case breaks one thing
+function row(overrides) {
+  return {
+    Jurisdiction: 'Dallas, TX',
+    'Jurisdiction ID': '4819000',
+    URL: 'https://www.dallasopendata.com/',
+    'Population Size': 'Population exceeding 1 million',
+    'Government Type': 'City',
+    Latitude: '32.7767',
+    Longitude: '-96.797',
+    ...overrides,
+  }
+}
+
+describe('parseSheetCsv', () => {
+  it('numbers rows by the CSV line they start on', () => {
+    const csv = [
+      'Jurisdiction,Jurisdiction ID,URL,Notes',
+      'Dallas,4819000,https://www.dallasopendata.com/,"Two',
+      'line note"',
+      '',
+      'Dallas County,48113,https://www.dallascounty.org/,',
+      'Austin,4805000,https://data.austintexas.gov/,"A',
+      '',
+      'three line note"',
+      'Denver,0820000,https://www.denvergov.org/opendata,',
+    ].join('\n')
+
+    const { rows, lines } = parseSheetCsv(csv)
+
+    expect(rows.map((row) => row.Jurisdiction)).toEqual(['Dallas', 'Dallas County', 'Austin', 'Denver'])
+    expect(lines).toEqual([2, 5, 6, 9])
+  })
+
+  it('handles CRLF line breaks and keeps IDs as strings', () => {
+    const { rows, lines } = parseSheetCsv('Jurisdiction,Jurisdiction ID\r\nDenver,0820000\r\n\r\nAdams County,08001\r\n')
+
+    expect(rows.map((row) => row['Jurisdiction ID'])).toEqual(['0820000', '08001'])
+    expect(lines).toEqual([2, 4])
+  })
+})
+
+describe('validateRows', () => {
+  let context
+
+  beforeAll(async () => {
+    context = await loadValidationContext()
+  })
+
+  const codes = (rows) => validateRows(rows, context).map((issue) => [issue.severity, issue.code])
+
+  it('finds nothing wrong with a clean row', () => {
+    expect(validateRows([row({})], context)).toEqual([])
+  })
+
+  it.each([
+    ['a missing ID', { 'Jurisdiction ID': '' }, [['error', 'missing-id']]],
+    ['a missing URL', { URL: '' }, [['error', 'missing-url']]],
+    ['a non-numeric ID', { 'Jurisdiction ID': '48-190' }, [['error', 'invalid-fips']]],
+    ['an unknown state FIPS', { 'Jurisdiction ID': '9919000' }, [['error', 'invalid-fips']]],
+    ['an unknown county FIPS', { 'Jurisdiction ID': '48999', 'Government Type': 'County' }, [['error', 'invalid-fips']]],
+    ['a place ID on a county', { 'Jurisdiction ID': '4819000', 'Government Type': 'County' }, [['error', 'id-length-mismatch']]],
+    ['a county ID on a city', { 'Jurisdiction ID': '48113' }, [['warning', 'id-missing-leading-zeros'], ['error', 'invalid-fips']]],
+    ['an ID missing its leading zero', {
+      Jurisdiction: 'Denver, CO', 'Jurisdiction ID': '820000', Latitude: '39.7392', Longitude: '-104.9903',
+    }, [['warning', 'id-missing-leading-zeros']]],
+    ['non-numeric coordinates', { Latitude: 'north' }, [['error', 'invalid-coordinates']]],
+    ['half the coordinates', { Longitude: '' }, [['error', 'invalid-coordinates']]],
+    ['coordinates outside the US', { Latitude: '51.5072', Longitude: '-0.1276' }, [['error', 'coordinates-outside-us']]],
+    ['coordinates far from the state', { Latitude: '39.7392', Longitude: '-104.9903' }, [['warning', 'coordinates-outside-state']]],
+    ['a city without coordinates', { Latitude: '', Longitude: '' }, [['warning', 'missing-coordinates']]],
+    ['an unknown population label', { 'Population Size': 'Big' }, [['warning', 'unknown-population-label']]],
+    ['an empty population label', { 'Population Size': '' }, [['warning', 'unknown-population-label']]],
+  ])('reports %s', (_name, overrides, expected) => {
+    expect(codes([row(overrides)])).toEqual(expected)
+  })
+
+  it('places Alaska across the antimeridian', () => {
+    const anchorage = row({
+      Jurisdiction: 'Anchorage, AK', 'Jurisdiction ID': '0203000', 'Population Size': 'Population between 50,000 and 500,000',
+      Latitude: '61.2181', Longitude: '-149.9003',
+    })
+    const adak = row({
+      ...anchorage, Jurisdiction: 'Adak, AK', 'Jurisdiction ID': '0200065', URL: 'https://adak-ak.gov/',
+      Latitude: '51.88', Longitude: '-176.6581',
+    })
+    expect(codes([anchorage, adak])).toEqual([])
+  })
+
+  it('does not ask counties for coordinates', () => {
+    expect(codes([row({ 'Jurisdiction ID': '48113', 'Government Type': 'County', Latitude: '', Longitude: '' })])).toEqual([])
+  })
+
+  it('warns about duplicate IDs and URLs on their first line', () => {
+    const issues = validateRows([
+      row({}),
+      row({ URL: 'https://www.dallascityhall.com/' }),
+      row({ Jurisdiction: 'Dallas County, TX', 'Jurisdiction ID': '48113', 'Government Type': 'County' }),
+    ], context, [2, 4, 7])
+
+    expect(issues.map((issue) => [issue.line, issue.code, issue.message])).toEqual([
+      [2, 'duplicate-id', 'Jurisdiction ID "4819000" appears on lines 2, 4'],
+      [2, 'duplicate-url', 'URL "https://www.dallasopendata.com/" appears on lines 2, 7'],
+    ])
+  })
+})
+
+describe('passesValidation', () => {
+  const clean = { errors: 0, warnings: 0 }
+  const warnings = { errors: 0, warnings: 2 }
+  const errors = { errors: 1, warnings: 2 }
+
+  it.each([
+    ['default', [true, true, false]],
+    ['strict', [true, false, false]],
+    ['warn-only', [true, true, true]],
+  ])('in %s mode', (mode, expected) => {
+    expect([clean, warnings, errors].map((summary) => passesValidation(summary, mode))).toEqual(expected)
+  })
+
+  it('counts issues by severity and code', () => {
+    const issues = [
+      { severity: 'error', code: 'invalid-fips' },
+      { severity: 'warning', code: 'duplicate-id' },
+      { severity: 'warning', code: 'duplicate-id' },
+    ]
+    expect(summarizeIssues(issues)).toEqual({ errors: 1, warnings: 2, byCode: { 'invalid-fips': 1, 'duplicate-id': 2 } })
+  })
+})
@@ -1,4 +1,4 @@
-import { useMemo, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from 'react'
 import {
   Button,
   Checkbox,
@@ -12,27 +12,112 @@ import {
 } from '@trussworks/react-uswds'
 import type { ModalRef } from '@trussworks/react-uswds'
 import './App.css'
-import { loadDashboardData, type DashboardRecord } from './dataLoader'
-import { USMap, type Region } from './Map'
+import { getHealthCheckedAt, getSnapshotChanges, getSnapshotMeta, type DashboardRecord, type LoadReport } from './dataLoader'
+import type { DataSource } from './dataSources'
+import type { CsvPreview } from './csvPreview'
+import { CsvPreviewDialog, PreviewBanner } from './CsvPreviewDialog'
+import { ChangesPanel } from './ChangesPanel'
+import { DiagnosticsDrawer } from './DiagnosticsDrawer'
+import { ExportMenu } from './ExportMenu'
+import { HealthBadge } from './HealthBadge'
+import { USMap, type MapFocusTarget, type MapView, type MapViewTarget, type Region } from './Map'
+import { JurisdictionSearch } from './JurisdictionSearch'
+import { ResultsTable } from './ResultsTable'
+import { CoverageGapsPanel } from './CoverageGapsPanel'
+import { CompareView } from './CompareView'
+import { MapFeatureList } from './MapFeatureList'
+import { MAP_LIST_ID, type MapListItem } from './mapFeatureList'
+import { ThemePicker } from './ThemePicker'
+import { SourceBanner } from './SourceBanner'
+import { useColorScheme } from './colorScheme'
+import {
+  DEFAULT_PALETTE,
+  loadThemePreference,
+  resolveMapTheme,
+  saveThemePreference,
+  themeCssVariables,
+  type PaletteId,
+  type ThemeMode,
+} from './themes'
+import { COMPARE_MAX, COMPARE_MIN } from './compare'
+import { DEFAULT_GAP_THRESHOLD, GAP_KIND_LABELS, findCoverageGaps, type GapKind } from './coverageGaps'
+import { POPULATION_BUCKETS, getPopulationBucketLabel } from './populationBuckets'
+import { PORTAL_PLATFORMS, getPlatformLabel } from './platforms'
+import { matchesFilters, type DashboardFilters, type GovernmentTypeFilter } from './filters'
+import { parseUrlState, serializeUrlState, type UrlState } from './urlState'
+import { parseEmbedConfig } from './embedConfig'
+import { postEmbedEvent, useEmbedCommands } from './embedBridge'
+import type { EmbedCommand, EmbedFilters } from './embedProtocol'
+import { isDebugMode } from './logger'
+import { JURISDICTION_KINDS, type JurisdictionKind } from './jurisdictionKinds'
+import { formatCatalogSummary, formatGrowth, formatPopulation } from './format'
+
+interface AppProps {
+  /** Records loaded from `source` by AppLoader */
+  report: LoadReport
+  source: DataSource
+  /** Set while a dropped CSV replaces the loaded data */
+  preview?: CsvPreview
+  onPreview?: (preview: CsvPreview) => void
+  onExitPreview?: () => void
+}
 
-type GovernmentTypeFilter = '' | 'City' | 'County' | 'Other Public Agency'
+function writeUrl(search: string, mode: 'push' | 'replace') {
+  const url = `${window.location.pathname}${search}${window.location.hash}`
+  if (mode === 'push') window.history.pushState(null, '', url)
+  else window.history.replaceState(null, '', url)
+}
 
-function App() {
-  const data = useMemo(() => loadDashboardData(), [])
+function App({ report, source, preview, onPreview, onExitPreview }: AppProps) {
+  const data = report.records
+  const snapshotMeta = getSnapshotMeta()
+  const snapshotChanges = getSnapshotChanges()
+  // Snapshot metadata and changes only describe the bundled snapshot
+  const isBundled = source.kind === 'bundled'
+  const [loadedAt] = useState(() => new Date().toISOString())
+  const exportSource = isBundled ? snapshotMeta : { generatedAt: loadedAt, sourceUrl: source.label }
+  const healthCheckedAt = getHealthCheckedAt()
+
+  // Filters, selection, region and map view restored from the query string
+  const [initialUrlState] = useState(() => parseUrlState(window.location.search))
+  const [embedConfig] = useState(() => parseEmbedConfig(window.location.search))
+
+  // Theme: an embedding host's choice wins over the one the user saved
+  const [themeMode, setThemeMode] = useState<ThemeMode>(() => embedConfig.theme ?? loadThemePreference().mode ?? 'auto')
+  const [palette, setPalette] = useState<PaletteId>(() => embedConfig.palette ?? loadThemePreference().palette ?? DEFAULT_PALETTE)
+  const colorScheme = useColorScheme(themeMode)
+  const mapTheme = useMemo(() => resolveMapTheme(palette, colorScheme), [palette, colorScheme])
+  const [debugMode] = useState(() => isDebugMode(window.location.search))
 
   // Region navigation
-  const [activeRegion, setActiveRegion] = useState<Region>('lower48')
+  const [activeRegion, setActiveRegion] = useState<Region>(initialUrlState.region)
 
   // Pending filter selections (not yet applied)
-  const [pendingGovType, setPendingGovType] = useState<GovernmentTypeFilter>('')
-  const [pendingPopSizes, setPendingPopSizes] = useState<Set<string>>(new Set())
+  const [pendingGovType, setPendingGovType] = useState<GovernmentTypeFilter>(initialUrlState.govType)
+  const [pendingPopSizes, setPendingPopSizes] = useState<Set<string>>(() => new Set(initialUrlState.popSizes))
+  const [pendingPlatform, setPendingPlatform] = useState<string>(initialUrlState.platform)
+  const [pendingHideBroken, setPendingHideBroken] = useState<boolean>(initialUrlState.hideBroken)
 
   // Applied filters
-  const [appliedGovType, setAppliedGovType] = useState<GovernmentTypeFilter>('')
-  const [appliedPopSizes, setAppliedPopSizes] = useState<Set<string>>(new Set())
+  const [appliedGovType, setAppliedGovType] = useState<GovernmentTypeFilter>(initialUrlState.govType)
+  const [appliedPopSizes, setAppliedPopSizes] = useState<Set<string>>(() => new Set(initialUrlState.popSizes))
+  const [appliedPlatform, setAppliedPlatform] = useState<string>(initialUrlState.platform)
+  const [appliedHideBroken, setAppliedHideBroken] = useState<boolean>(initialUrlState.hideBroken)
 
   // Selected jurisdictions for the table
-  const [selectedJurisdictions, setSelectedJurisdictions] = useState<Set<string>>(new Set())
+  const [selectedJurisdictions, setSelectedJurisdictions] = useState<Set<string>>(() => new Set(initialUrlState.selected))
+  const [compareOpen, setCompareOpen] = useState<boolean>(initialUrlState.compare)
+
+  // Current map view (kept in a ref: panning updates the URL but shouldn't re-render)
+  const mapViewRef = useRef<MapView | undefined>(initialUrlState.view)
+  // View to restore when navigating back/forward
+  const [viewTarget, setViewTarget] = useState<MapViewTarget | null>(null)
+  const hasSyncedUrl = useRef(false)
+
+  // Jurisdiction the map should fly to (set by search)
+  const [focusTarget, setFocusTarget] = useState<MapFocusTarget | null>(null)
+  // Jurisdiction highlighted on the map while its results row is hovered
+  const [highlightId, setHighlightId] = useState<string | null>(null)
 
   const [selectedName, setSelectedName] = useState<string>('')
   const [selectedFeatureRows, setSelectedFeatureRows] = useState<DashboardRecord[]>([])
@@ -41,98 +126,219 @@ function App() {
 
   const governmentOptions = useMemo(() => {
     const base: GovernmentTypeFilter[] = ['City', 'County']
-    const hasOther = data.some(
-      (row) => !row.governmentTypes.includes('City') && !row.governmentTypes.includes('County')
-    )
+    const hasOther = data.some((row) => row.kind !== 'place' && row.kind !== 'county' && !row.isUnified)
     return hasOther ? [...base, 'Other Public Agency'] : base
   }, [data])
 
+  // Configured buckets that at least one record falls into, in threshold order
   const populationOptions = useMemo(() => {
     const values = new Set<string>()
     data.forEach((row) => {
-      if (row.populationSize) values.add(row.populationSize)
+      if (row.populationBucket) values.add(row.populationBucket)
     })
-    return Array.from(values).sort()
+    return POPULATION_BUCKETS.filter((bucket) => values.has(bucket.id))
   }, [data])
 
-  const filteredRows = useMemo(() => {
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-    console.log('📊 STEP 2: FILTERING DATA')
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-    console.log('Total rows before filtering:', data.length)
-    console.log('Applied filters:', { appliedGovType, appliedPopSizes: Array.from(appliedPopSizes) })
-    
-    const filtered = data.filter((row) => {
-      if (appliedGovType) {
-        if (appliedGovType === 'City' && !row.governmentTypes.includes('City')) return false
-        if (appliedGovType === 'County' && !row.governmentTypes.includes('County')) return false
-        if (
-          appliedGovType === 'Other Public Agency' &&
-          (row.governmentTypes.includes('City') || row.governmentTypes.includes('County'))
-        ) {
-          return false
-        }
-      }
+  // Platforms present in the data, with how many records use each
+  const platformOptions = useMemo(() => {
+    const counts = new Map<string, number>()
+    data.forEach((row) => counts.set(row.platform, (counts.get(row.platform) ?? 0) + 1))
+    return PORTAL_PLATFORMS
+      .filter((platform) => counts.has(platform.id))
+      .map((platform) => ({ ...platform, count: counts.get(platform.id) ?? 0 }))
+  }, [data])
 
-      if (appliedPopSizes.size > 0 && !appliedPopSizes.has(row.populationSize)) return false
+  const dashboardFilters = useMemo<DashboardFilters>(() => ({
+    govType: appliedGovType,
+    popSizes: appliedPopSizes,
+    platform: appliedPlatform,
+    hideBroken: appliedHideBroken,
+  }), [appliedGovType, appliedPopSizes, appliedPlatform, appliedHideBroken])
 
-      return true
-    })
-    
-    console.log('✅ Total rows after filtering:', filtered.length)
-    const filteredCities = filtered.filter(r => r.governmentTypes.includes('City'))
-    const filteredCounties = filtered.filter(r => r.governmentTypes.includes('County'))
-    console.log('Filtered city rows:', filteredCities.length)
-    console.log('Filtered county rows:', filteredCounties.length)
-    
-    // Check for specific jurisdictions after filtering
-    const dallasCity = filtered.find(r => r.jurisdiction.toLowerCase().includes('dallas') && r.governmentTypes.includes('City'))
-    const denver = filtered.find(r => r.jurisdiction.toLowerCase().includes('denver'))
-    const laCity = filtered.find(r => r.jurisdiction.toLowerCase() === 'los angeles' && r.governmentTypes.includes('City'))
-    
-    console.log(dallasCity ? '✅ Dallas city still present after filter' : '❌ Dallas city filtered out')
-    console.log(denver ? '✅ Denver still present after filter' : '❌ Denver filtered out')
-    console.log(laCity ? '✅ Los Angeles city still present after filter' : '❌ Los Angeles city filtered out')
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n')
-    
-    return filtered
-  }, [data, appliedGovType, appliedPopSizes])
+  const filteredRows = useMemo(
+    () => data.filter((row) => matchesFilters(row, dashboardFilters)),
+    [data, dashboardFilters]
+  )
 
-  const hasDataIds = useMemo(() => {
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-    console.log('📊 STEP 3: CREATING ID SET (hasDataIds)')
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-    
-    const ids = new Set(filteredRows.map((row) => row.jurisdictionId))
-    console.log('Total unique IDs in hasDataIds:', ids.size)
-    
-    const fiveDigit = Array.from(ids).filter(id => id.length === 5)
-    const sevenDigit = Array.from(ids).filter(id => id.length === 7)
-    console.log('5-digit IDs (counties):', fiveDigit.length)
-    console.log('7-digit IDs (cities):', sevenDigit.length)
-    
-    // Check for duplicates in source data
-    const idCounts = new Map<string, number>()
-    filteredRows.forEach(row => {
-      idCounts.set(row.jurisdictionId, (idCounts.get(row.jurisdictionId) || 0) + 1)
+  // Coverage gap layer: large counties (or places) without any record, regardless of filters
+  const [gapKind, setGapKind] = useState<GapKind>('county')
+  const [gapThreshold, setGapThreshold] = useState(DEFAULT_GAP_THRESHOLD)
+  const [showGaps, setShowGaps] = useState(false)
+
+  // Jurisdictions the map draws, reported by USMap for its list alternative
+  const [mapFeatures, setMapFeatures] = useState<MapListItem[]>([])
+  const gapIds = useMemo(
+    () => showGaps && gapKind === 'county'
+      ? new Set(findCoverageGaps(data, gapKind, gapThreshold).map((gap) => gap.geoid))
+      : null,
+    [data, gapKind, gapThreshold, showGaps]
+  )
+
+  // Legend entries for the kinds in the data (areas first), with how many filtered jurisdictions each shows
+  const legendKinds = useMemo(() => {
+    const present = new Set(data.map((row) => row.kind))
+    const idsByKind = new Map<JurisdictionKind, Set<string>>()
+    filteredRows.forEach((row) => {
+      idsByKind.set(row.kind, (idsByKind.get(row.kind) ?? new Set()).add(row.jurisdictionId))
     })
-    const duplicates = Array.from(idCounts.entries()).filter(([_, count]) => count > 1)
-    if (duplicates.length > 0) {
-      console.warn('⚠️  Duplicate IDs found:', duplicates)
-    }
-    
-    console.log('Sample IDs:', Array.from(ids).slice(0, 10))
-    console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n')
-    
-    return ids
-  }, [filteredRows])
+    return [
+      ...JURISDICTION_KINDS.filter((kind) => kind.shape === 'area'),
+      ...JURISDICTION_KINDS.filter((kind) => kind.shape === 'point'),
+    ]
+      .filter((kind) => present.has(kind.id))
+      .map((kind) => ({ ...kind, count: idsByKind.get(kind.id)?.size ?? 0 }))
+  }, [data, filteredRows])
 
   const selectedJurisdictionsData = useMemo(() => {
     return data.filter((row) => selectedJurisdictions.has(row.jurisdictionId))
   }, [data, selectedJurisdictions])
 
+  const appliedFilters = useMemo<EmbedFilters>(() => ({
+    ...dashboardFilters,
+    popSizes: Array.from(dashboardFilters.popSizes),
+  }), [dashboardFilters])
+
+  // URL state apart from the map view, which is tracked in mapViewRef
+  const urlState = useMemo<Omit<UrlState, 'view'>>(() => ({
+    govType: appliedGovType,
+    popSizes: Array.from(appliedPopSizes),
+    platform: appliedPlatform,
+    hideBroken: appliedHideBroken,
+    selected: Array.from(selectedJurisdictions),
+    compare: compareOpen,
+    region: activeRegion,
+  }), [appliedGovType, appliedPopSizes, appliedPlatform, appliedHideBroken, selectedJurisdictions, compareOpen, activeRegion])
+
+  // Add a history entry when filters, selection, compare view or region change
+  useEffect(() => {
+    const search = serializeUrlState({ ...urlState, view: mapViewRef.current }, window.location.search)
+    if (search !== window.location.search) {
+      // The first sync only canonicalizes the URL the page was opened with
+      writeUrl(search, hasSyncedUrl.current ? 'push' : 'replace')
+    }
+    hasSyncedUrl.current = true
+  }, [urlState])
+
+  // Restore state when the user navigates back/forward
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseUrlState(window.location.search)
+      setPendingGovType(state.govType)
+      setAppliedGovType(state.govType)
+      setPendingPopSizes(new Set(state.popSizes))
+      setAppliedPopSizes(new Set(state.popSizes))
+      setPendingPlatform(state.platform)
+      setAppliedPlatform(state.platform)
+      setPendingHideBroken(state.hideBroken)
+      setAppliedHideBroken(state.hideBroken)
+      setSelectedJurisdictions(new Set(state.selected))
+      setCompareOpen(state.compare)
+      setActiveRegion(state.region)
+      // Entries without a view go back to the region's default view
+      const view = state.view
+      mapViewRef.current = view
+      setViewTarget((prev) => ({ view, seq: (prev?.seq ?? 0) + 1 }))
+    }
+
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  // Tell an embedding host page we're ready, with the initial state
+  useEffect(() => {
+    const { govType, popSizes, platform, hideBroken, selected, region } = initialUrlState
+    postEmbedEvent({
+      type: 'ready',
+      filters: { govType, popSizes, platform, hideBroken },
+      selected,
+      region,
+    }, embedConfig)
+  }, [initialUrlState, embedConfig])
+
+  // Notify the host page of filter and selection changes (not the initial state).
+  // The refs skip re-runs where the records didn't change.
+  const lastPostedFilters = useRef(filteredRows)
+  useEffect(() => {
+    if (lastPostedFilters.current === filteredRows) return
+    lastPostedFilters.current = filteredRows
+    postEmbedEvent({
+      type: 'filtersChange',
+      filters: appliedFilters,
+      records: filteredRows,
+    }, embedConfig)
+  }, [filteredRows, appliedFilters, embedConfig])
+
+  const lastPostedSelection = useRef(selectedJurisdictionsData)
+  useEffect(() => {
+    if (lastPostedSelection.current === selectedJurisdictionsData) return
+    lastPostedSelection.current = selectedJurisdictionsData
+    postEmbedEvent({
+      type: 'selectionChange',
+      selected: Array.from(selectedJurisdictions),
+      records: selectedJurisdictionsData,
+    }, embedConfig)
+  }, [selectedJurisdictionsData, selectedJurisdictions, embedConfig])
+
+  useEmbedCommands(embedConfig, (command: EmbedCommand) => {
+    switch (command.type) {
+      // A host that connected after the initial `ready` gets the current state
+      case 'hello':
+        postEmbedEvent({
+          type: 'ready',
+          filters: appliedFilters,
+          selected: Array.from(selectedJurisdictions),
+          region: activeRegion,
+        }, embedConfig)
+        break
+      case 'setFilters': {
+        const { govType, popSizes, platform, hideBroken } = command.filters
+        if (govType !== undefined) {
+          setPendingGovType(govType)
+          setAppliedGovType(govType)
+        }
+        if (popSizes !== undefined) {
+          setPendingPopSizes(new Set(popSizes))
+          setAppliedPopSizes(new Set(popSizes))
+        }
+        if (platform !== undefined) {
+          setPendingPlatform(platform)
+          setAppliedPlatform(platform)
+        }
+        if (hideBroken !== undefined) {
+          setPendingHideBroken(hideBroken)
+          setAppliedHideBroken(hideBroken)
+        }
+        break
+      }
+      case 'select': {
+        setSelectedJurisdictions((prev) =>
+          command.mode === 'add' ? new Set([...prev, ...command.ids]) : new Set(command.ids)
+        )
+        if (command.focus && command.ids.length === 1) {
+          setFocusTarget((prev) => ({ geoid: command.ids[0], seq: (prev?.seq ?? 0) + 1 }))
+        }
+        break
+      }
+      case 'setRegion':
+        setActiveRegion(command.region)
+        break
+      case 'setTheme':
+        if (command.theme) setThemeMode(command.theme)
+        if (command.palette) setPalette(command.palette)
+        break
+    }
+  })
+
+  // Panning and zooming update the current history entry instead of adding one
+  const handleViewChange = (view: MapView) => {
+    mapViewRef.current = view
+    const search = serializeUrlState({ ...urlState, view }, window.location.search)
+    if (search !== window.location.search) writeUrl(search, 'replace')
+  }
+
   const handleFeatureClick = (geoid: string, name: string) => {
     const matches = filteredRows.filter((row) => row.jurisdictionId === geoid)
+    postEmbedEvent({ type: 'featureClick', geoid, name, records: matches }, embedConfig)
     
     setSelectedName(name)
     setSelectedFeatureRows(matches)
@@ -143,9 +349,33 @@ function App() {
     modalRef.current?.toggleModal(undefined, true)
   }
 
+  // Search results and the changes panel fly the map to the jurisdiction, then select it
+  const focusAndSelect = (geoid: string, name: string) => {
+    focusOnMap(geoid)
+    handleFeatureClick(geoid, name)
+  }
+
+  const handleSearchSelect = (record: DashboardRecord) => {
+    focusAndSelect(record.jurisdictionId, record.jurisdiction)
+  }
+
+  const focusOnMap = (geoid: string) => {
+    setFocusTarget((prev) => ({ geoid, seq: (prev?.seq ?? 0) + 1 }))
+  }
+
+  const showOnMap = (record: DashboardRecord) => {
+    focusOnMap(record.jurisdictionId)
+  }
+
+  const addToSelection = (record: DashboardRecord) => {
+    setSelectedJurisdictions((prev) => new Set(prev).add(record.jurisdictionId))
+  }
+
   const applyFilters = () => {
     setAppliedGovType(pendingGovType)
     setAppliedPopSizes(new Set(pendingPopSizes))
+    setAppliedPlatform(pendingPlatform)
+    setAppliedHideBroken(pendingHideBroken)
   }
 
   const clearFilters = () => {
@@ -153,6 +383,16 @@ function App() {
     setPendingPopSizes(new Set())
     setAppliedGovType('')
     setAppliedPopSizes(new Set())
+    setPendingPlatform('')
+    setAppliedPlatform('')
+    setPendingHideBroken(false)
+    setAppliedHideBroken(false)
+  }
+
+  const changeTheme = (mode: ThemeMode, nextPalette: PaletteId) => {
+    setThemeMode(mode)
+    setPalette(nextPalette)
+    saveThemePreference({ mode, palette: nextPalette })
   }
 
   const clearSelectedQueries = () => {
@@ -176,17 +416,20 @@ function App() {
     })
   }
 
-  const hasActiveFilters = appliedGovType !== '' || appliedPopSizes.size > 0
-  const hasPendingChanges = pendingGovType !== appliedGovType || 
+  const hasActiveFilters = appliedGovType !== '' || appliedPopSizes.size > 0 || appliedPlatform !== '' || appliedHideBroken
+  const hasPendingChanges = pendingGovType !== appliedGovType || pendingPlatform !== appliedPlatform ||
+    pendingHideBroken !== appliedHideBroken ||
     JSON.stringify(Array.from(pendingPopSizes).sort()) !== JSON.stringify(Array.from(appliedPopSizes).sort())
 
-  // Check for embed mode
-  const isEmbedded = new URLSearchParams(window.location.search).get('embed') === '1'
-
   return (
-    <div className="app-container">
+    <div
+      className={`app-container${compareOpen ? ' compare-open' : ''}`}
+      data-theme={colorScheme}
+      data-palette={palette}
+      style={themeCssVariables(mapTheme.colors) as CSSProperties}
+    >
       <div className="page-shell">
-        {!isEmbedded && (
+        {!embedConfig.embedded && (
           <div className="page-header-wrapper">
             <header className="page-header">
               <div>
@@ -195,160 +438,266 @@ function App() {
                   Explore city and county open data portals across the United States. Open data portals are websites where local governments publish public datasets. Use the map and filters to narrow results.
                 </p>
               </div>
+              <div className="header-actions">
+                {isBundled ? (
+                  <>
+                    <p className="last-updated">
+                      Data last updated: {new Date(snapshotMeta.generatedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}
+                    </p>
+                    <ChangesPanel changes={snapshotChanges} onSelect={focusAndSelect} />
+                  </>
+                ) : (
+                  <p className="last-updated">Data source: {source.label}</p>
+                )}
+                {onPreview && <CsvPreviewDialog onShowOnMap={onPreview} />}
+              </div>
             </header>
           </div>
         )}
 
-        <div className="map-layout">
-          <aside className="filters-sidebar" aria-label="Filters">
-            <div className="filters-header">
-              <h2>Filters</h2>
-            </div>
-            
-            <FormGroup>
-              <Label htmlFor="gov-filter">Government Type</Label>
-              <select
-                id="gov-filter"
-                className="usa-select"
-                value={pendingGovType}
-                onChange={(e) => setPendingGovType(e.target.value as GovernmentTypeFilter)}
-              >
-                <option value="">All</option>
-                {governmentOptions.map((opt) => (
-                  <option key={opt} value={opt}>
-                    {opt}
-                  </option>
-                ))}
-              </select>
-            </FormGroup>
-
-            <Fieldset legend="Population Size" legendStyle="srOnly">
-              <legend className="checkbox-label">Population Size</legend>
-              <div className="checkbox-list">
-                {populationOptions.map((opt) => (
-                  <Checkbox
-                    key={opt}
-                    id={`pop-${opt}`}
-                    name="population-size"
-                    value={opt}
-                    label={opt}
-                    checked={pendingPopSizes.has(opt)}
-                    onChange={() => togglePopulationFilter(opt)}
-                  />
-                ))}
+        {preview && onExitPreview && <PreviewBanner preview={preview} onExit={onExitPreview} />}
+        {!isBundled && !preview && <SourceBanner source={source} />}
+
+        <div className={embedConfig.showSidebar ? 'map-layout' : 'map-layout no-sidebar'}>
+          {embedConfig.showSidebar && (
+            <aside className="filters-sidebar" aria-label="Filters">
+              <div className="filters-header">
+                <h2>Filters</h2>
               </div>
-            </Fieldset>
-
-            <div className="filter-actions">
-              <Button type="button" onClick={applyFilters} disabled={!hasPendingChanges}>
-                Apply Filters
-              </Button>
-              <Button type="button" onClick={clearFilters} secondary disabled={!hasActiveFilters && pendingPopSizes.size === 0 && !pendingGovType}>
-                Clear All
-              </Button>
-            </div>
 
-            {hasActiveFilters && (
-              <div className="active-filters">
-                <h3>Active Filters</h3>
-                <ul className="filter-tags">
-                  {appliedGovType && (
-                    <li className="filter-tag">
-                      Government: {appliedGovType}
-                      <button
-                        onClick={() => {
-                          setPendingGovType('')
-                          setAppliedGovType('')
-                        }}
-                        aria-label={`Remove ${appliedGovType} filter`}
-                      >
-                        ×
-                      </button>
-                    </li>
-                  )}
-                  {Array.from(appliedPopSizes).map((size) => (
-                    <li key={size} className="filter-tag">
-                      {size}
-                      <button
-                        onClick={() => {
-                          const newSizes = new Set(appliedPopSizes)
-                          newSizes.delete(size)
-                          setAppliedPopSizes(newSizes)
-                          setPendingPopSizes(newSizes)
-                        }}
-                        aria-label={`Remove ${size} filter`}
-                      >
-                        ×
-                      </button>
-                    </li>
+              <JurisdictionSearch records={filteredRows} onSelect={handleSearchSelect} />
+            
+              <FormGroup>
+                <Label htmlFor="gov-filter">Government Type</Label>
+                <select
+                  id="gov-filter"
+                  className="usa-select"
+                  value={pendingGovType}
+                  onChange={(e) => setPendingGovType(e.target.value as GovernmentTypeFilter)}
+                >
+                  <option value="">All</option>
+                  {governmentOptions.map((opt) => (
+                    <option key={opt} value={opt}>
+                      {opt}
+                    </option>
+                  ))}
+                </select>
+              </FormGroup>
+
+              <Fieldset legend="Population Size" legendStyle="srOnly">
+                <legend className="checkbox-label">Population Size</legend>
+                <div className="checkbox-list">
+                  {populationOptions.map((opt) => (
+                    <Checkbox
+                      key={opt.id}
+                      id={`pop-${opt.id}`}
+                      name="population-size"
+                      value={opt.id}
+                      label={opt.label}
+                      checked={pendingPopSizes.has(opt.id)}
+                      onChange={() => togglePopulationFilter(opt.id)}
+                    />
                   ))}
-                </ul>
+                </div>
+              </Fieldset>
+
+              <FormGroup>
+                <Label htmlFor="platform-filter">Portal Platform</Label>
+                <select
+                  id="platform-filter"
+                  className="usa-select"
+                  value={pendingPlatform}
+                  onChange={(e) => setPendingPlatform(e.target.value)}
+                >
+                  <option value="">All</option>
+                  {platformOptions.map((opt) => (
+                    <option key={opt.id} value={opt.id}>
+                      {opt.label} ({opt.count})
+                    </option>
+                  ))}
+                </select>
+              </FormGroup>
+
+              {healthCheckedAt && (
+                <Checkbox
+                  id="hide-broken"
+                  name="hide-broken"
+                  label="Hide broken portals"
+                  checked={pendingHideBroken}
+                  onChange={(e) => setPendingHideBroken(e.target.checked)}
+                />
+              )}
+
+              <div className="filter-actions">
+                <Button type="button" onClick={applyFilters} disabled={!hasPendingChanges}>
+                  Apply Filters
+                </Button>
+                <Button type="button" onClick={clearFilters} secondary disabled={!hasActiveFilters && pendingPopSizes.size === 0 && !pendingGovType && !pendingPlatform && !pendingHideBroken}>
+                  Clear All
+                </Button>
               </div>
-            )}
-          </aside>
+
+              {hasActiveFilters && (
+                <div className="active-filters">
+                  <h3>Active Filters</h3>
+                  <ul className="filter-tags">
+                    {appliedGovType && (
+                      <li className="filter-tag">
+                        Government: {appliedGovType}
+                        <button
+                          onClick={() => {
+                            setPendingGovType('')
+                            setAppliedGovType('')
+                          }}
+                          aria-label={`Remove ${appliedGovType} filter`}
+                        >
+                          ×
+                        </button>
+                      </li>
+                    )}
+                    {Array.from(appliedPopSizes).map((size) => (
+                      <li key={size} className="filter-tag">
+                        {getPopulationBucketLabel(size)}
+                        <button
+                          onClick={() => {
+                            const newSizes = new Set(appliedPopSizes)
+                            newSizes.delete(size)
+                            setAppliedPopSizes(newSizes)
+                            setPendingPopSizes(newSizes)
+                          }}
+                          aria-label={`Remove ${getPopulationBucketLabel(size)} filter`}
+                        >
+                          ×
+                        </button>
+                      </li>
+                    ))}
+                    {appliedPlatform && (
+                      <li className="filter-tag">
+                        Platform: {getPlatformLabel(appliedPlatform)}
+                        <button
+                          onClick={() => {
+                            setPendingPlatform('')
+                            setAppliedPlatform('')
+                          }}
+                          aria-label={`Remove ${getPlatformLabel(appliedPlatform)} filter`}
+                        >
+                          ×
+                        </button>
+                      </li>
+                    )}
+                    {appliedHideBroken && (
+                      <li className="filter-tag">
+                        Hiding broken portals
+                        <button
+                          onClick={() => {
+                            setPendingHideBroken(false)
+                            setAppliedHideBroken(false)
+                          }}
+                          aria-label="Remove hide broken portals filter"
+                        >
+                          ×
+                        </button>
+                      </li>
+                    )}
+                  </ul>
+                </div>
+              )}
+
+              <ExportMenu
+                filteredRows={filteredRows}
+                selectedRows={selectedJurisdictionsData}
+                filters={appliedFilters}
+                source={exportSource}
+              />
+            </aside>
+          )}
 
           <div className="map-main">
+            {compareOpen && (
+              <CompareView
+                selectedIds={selectedJurisdictions}
+                records={data}
+                onRemove={removeSelectedQuery}
+                onClose={() => setCompareOpen(false)}
+              />
+            )}
+
             {/* Selected Jurisdictions - moved above map for immediate visibility */}
-            <section className="selected-section-compact">
-              {selectedJurisdictions.size === 0 ? (
-                <div className="selection-placeholder">
-                  <p>Selected jurisdictions will appear here.</p>
-                </div>
-              ) : (
-                <>
-                  <div className="selected-header">
-                    <h2>Selected Jurisdictions ({selectedJurisdictions.size})</h2>
-                    <Button 
-                      type="button" 
-                      unstyled 
-                      onClick={clearSelectedQueries} 
-                      className="clear-button"
-                      aria-label="Clear all selected jurisdictions"
-                    >
-                      Clear all
-                    </Button>
+            {embedConfig.showSelectedTable && (
+              <section className="selected-section-compact">
+                {selectedJurisdictions.size === 0 ? (
+                  <div className="selection-placeholder">
+                    <p>Selected jurisdictions will appear here.</p>
                   </div>
-                  <div className="table-wrapper">
-                    <Table bordered fullWidth>
-                      <thead>
-                        <tr>
-                          <th scope="col">Jurisdiction</th>
-                          <th scope="col">Government Type</th>
-                          <th scope="col">Population Size</th>
-                          <th scope="col">Dashboard</th>
-                          <th scope="col"></th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {selectedJurisdictionsData.map((row) => (
-                          <tr key={`${row.jurisdiction}-${row.jurisdictionId}`}>
-                            <td>{row.jurisdiction}</td>
-                            <td>{row.displayGovernmentType}</td>
-                            <td>{row.populationSize}</td>
-                            <td>
-                              <a href={row.url} target="_blank" rel="noreferrer">
-                                Open Portal
-                              </a>
-                            </td>
-                            <td>
-                              <Button
-                                type="button"
-                                unstyled
-                                onClick={() => removeSelectedQuery(row.jurisdictionId)}
-                                className="remove-button"
-                                aria-label={`Clear ${row.jurisdiction} from selection`}
-                              >
-                                Clear
-                              </Button>
-                            </td>
+                ) : (
+                  <>
+                    <div className="selected-header">
+                      <h2>Selected Jurisdictions ({selectedJurisdictions.size})</h2>
+                      <Button
+                        type="button"
+                        outline
+                        onClick={() => setCompareOpen(true)}
+                        disabled={selectedJurisdictions.size < COMPARE_MIN || selectedJurisdictions.size > COMPARE_MAX}
+                        className="compare-button"
+                        title={`Compare ${COMPARE_MIN} to ${COMPARE_MAX} selected jurisdictions side by side`}
+                      >
+                        Compare
+                      </Button>
+                      <Button 
+                        type="button" 
+                        unstyled 
+                        onClick={clearSelectedQueries} 
+                        className="clear-button"
+                        aria-label="Clear all selected jurisdictions"
+                      >
+                        Clear all
+                      </Button>
+                    </div>
+                    <div className="table-wrapper">
+                      <Table bordered fullWidth>
+                        <thead>
+                          <tr>
+                            <th scope="col">Jurisdiction</th>
+                            <th scope="col">Government Type</th>
+                            <th scope="col">Population Size</th>
+                            <th scope="col">Platform</th>
+                            <th scope="col">Dashboard</th>
+                            <th scope="col"></th>
                           </tr>
-                        ))}
-                      </tbody>
-                    </Table>
-                  </div>
-                </>
-              )}
-            </section>
+                        </thead>
+                        <tbody>
+                          {selectedJurisdictionsData.map((row) => (
+                            <tr key={`${row.jurisdiction}-${row.jurisdictionId}`}>
+                              <td>{row.jurisdiction}</td>
+                              <td>{row.displayGovernmentType}</td>
+                              <td>{row.populationSize}</td>
+                              <td>{getPlatformLabel(row.platform)}</td>
+                              <td>
+                                <a href={row.url} target="_blank" rel="noreferrer">
+                                  Open Portal
+                                </a>
+                                <HealthBadge health={row.health} />
+                              </td>
+                              <td>
+                                <Button
+                                  type="button"
+                                  unstyled
+                                  onClick={() => removeSelectedQuery(row.jurisdictionId)}
+                                  className="remove-button"
+                                  aria-label={`Clear ${row.jurisdiction} from selection`}
+                                >
+                                  Clear
+                                </Button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </Table>
+                    </div>
+                  </>
+                )}
+              </section>
+            )}
 
             <div className="map-controls">
               <div className="quick-zoom-controls">
@@ -385,18 +734,31 @@ function App() {
               </div>
               {data.length > 0 && (
                 <div className="map-legend" role="region" aria-label="Map legend">
-                  <span className="legend-item">
-                    <span className="legend-swatch county" aria-hidden="true" /> 
-                    <span>Counties — shown as shaded areas ({Array.from(hasDataIds).filter(id => id.length === 5).length})</span>
-                  </span>
-                  <span className="legend-item">
-                    <span className="legend-swatch city" aria-hidden="true" /> 
-                    <span>Cities — shown as points ({Array.from(hasDataIds).filter(id => id.length === 7).length})</span>
-                  </span>
+                  {legendKinds.map((kind) => (
+                    <span key={kind.id} className="legend-item">
+                      <span className={`legend-swatch ${kind.shape} ${kind.id}`} aria-hidden="true" />
+                      <span>{kind.label} — {kind.legend} ({kind.count})</span>
+                    </span>
+                  ))}
+                  {gapIds && (
+                    <span className="legend-item">
+                      <span className="legend-swatch area gap" aria-hidden="true" />
+                      <span>
+                        {GAP_KIND_LABELS[gapKind]} over {gapThreshold.toLocaleString('en-US')} without a portal ({gapIds.size})
+                      </span>
+                    </span>
+                  )}
                 </div>
               )}
+              <ThemePicker mode={themeMode} palette={palette} onChange={changeTheme} />
             </div>
-            <section className="map-section">
+            <section
+              className="map-section"
+              style={embedConfig.height ? { flex: 'none', height: embedConfig.height, minHeight: 0 } : undefined}
+            >
+              <a className="map-skip-link" href={`#${MAP_LIST_ID}`}>
+                Skip the map to a list of the jurisdictions it shows
+              </a>
               {data.length === 0 ? (
                 <div className="map-container">
                   <div style={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -405,14 +767,54 @@ function App() {
                 </div>
               ) : (
                 <div className="map-container">
-                  <USMap hasDataIds={hasDataIds} onFeatureClick={handleFeatureClick} allData={filteredRows} activeRegion={activeRegion} />
+                  <USMap
+                    onFeatureClick={handleFeatureClick}
+                    allData={filteredRows}
+                    theme={mapTheme}
+                    activeRegion={activeRegion}
+                    focusTarget={focusTarget}
+                    initialView={initialUrlState.view}
+                    viewTarget={viewTarget}
+                    onViewChange={handleViewChange}
+                    highlightId={highlightId}
+                    gapIds={gapIds}
+                    onFeaturesChange={setMapFeatures}
+                  />
                 </div>
               )}
             </section>
+
+            {data.length > 0 && (
+              <MapFeatureList items={mapFeatures} onSelect={handleFeatureClick} onShowOnMap={focusOnMap} />
+            )}
+
+            {embedConfig.showResultsTable && (
+              <ResultsTable
+                rows={filteredRows}
+                selectedIds={selectedJurisdictions}
+                onShowOnMap={showOnMap}
+                onAddToSelection={addToSelection}
+                onHighlight={setHighlightId}
+              />
+            )}
+
+            {embedConfig.showGapsPanel && (
+              <CoverageGapsPanel
+                records={data}
+                kind={gapKind}
+                threshold={gapThreshold}
+                showOnMap={showGaps}
+                onKindChange={setGapKind}
+                onThresholdChange={setGapThreshold}
+                onShowOnMapChange={setShowGaps}
+              />
+            )}
           </div>
         </div>
       </div>
 
+      {debugMode && <DiagnosticsDrawer report={report} filters={dashboardFilters} />}
+
       <Modal id="details-modal" ref={modalRef} aria-labelledby="details-heading" aria-describedby="details-body">
         <ModalHeading id="details-heading">
           {selectedName || 'Jurisdiction details'}
@@ -426,6 +828,28 @@ function App() {
                 <li key={`${row.jurisdiction}-${row.url}`} className="detail-card">
                   <p className="detail-meta">Government Type: {row.displayGovernmentType}</p>
                   <p className="detail-meta">Population Size: {row.populationSize}</p>
+                  {row.population !== undefined && (
+                    <p className="detail-meta">
+                      Population ({row.populationYear} estimate): {formatPopulation(row.population)}
+                      {row.populationGrowth !== undefined && ` (${formatGrowth(row.populationGrowth)} since ${row.populationBaseYear})`}
+                    </p>
+                  )}
+                  <p className="detail-meta">Platform: {getPlatformLabel(row.platform)}</p>
+                  {row.coordinateSource === 'gazetteer' && (
+                    <p className="detail-meta">Map location: Census place gazetteer</p>
+                  )}
+                  {row.health && (
+                    <p className="detail-meta">
+                      Link status: <HealthBadge health={row.health} />
+                    </p>
+                  )}
+                  {row.catalog?.apiAvailable && (
+                    <p className="detail-meta">
+                      {formatCatalogSummary(row.catalog)}
+                      {row.catalog.topCategories && row.catalog.topCategories.length > 0 &&
+                        ` · Top categories: ${row.catalog.topCategories.map((category) => category.name).join(', ')}`}
+                    </p>
+                  )}
                   {row.notes && (
                     <div className="detail-notes-section">
                       <p className="detail-notes-label">Notes:</p>
@@ -0,0 +1,128 @@
+import { useEffect, useState } from 'react'
+import { Alert, Button, FileInput, FormGroup, Label } from '@trussworks/react-uswds'
+import App from './App'
+import type { LoadReport } from './dataLoader'
+import { createPreviewSource, type CsvPreview } from './csvPreview'
+import { createDataSource, defaultSourceHref, getDataSourceConfig, loadSourceReport, type DataSource } from './dataSources'
+import { parseEmbedConfig } from './embedConfig'
+import { createLogger } from './logger'
+import { useColorScheme } from './colorScheme'
+import { loadThemePreference } from './themes'
+
+const log = createLogger('data')
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'error'; message: string }
+  | { status: 'ready'; report: LoadReport }
+
+/**
+ * Load portal records from the configured data source (see dataSources.ts),
+ * showing loading and error states, then render the app. A `file` source
+ * asks for a CSV or JSON file first. A CSV preview replaces the data
+ * without reloading it.
+ */
+export function AppLoader() {
+  const [config] = useState(() => getDataSourceConfig(window.location.search))
+  const [themeMode] = useState(() => parseEmbedConfig(window.location.search).theme ?? loadThemePreference().mode ?? 'auto')
+  const colorScheme = useColorScheme(themeMode)
+  const [source, setSource] = useState<DataSource | null>(() => createDataSource(config))
+  const [attempt, setAttempt] = useState(0)
+  const [state, setState] = useState<LoadState>({ status: 'loading' })
+  // A dropped CSV shown in place of the loaded data until the user exits the preview
+  const [preview, setPreview] = useState<CsvPreview | null>(null)
+
+  useEffect(() => {
+    if (!source) return
+    let cancelled = false
+
+    loadSourceReport(source)
+      .then((report) => {
+        if (!cancelled) setState({ status: 'ready', report })
+      })
+      .catch((error: unknown) => {
+        log.error(`Error loading ${source.label}:`, error)
+        if (!cancelled) setState({ status: 'error', message: error instanceof Error ? error.message : String(error) })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [source, attempt])
+
+  const retry = () => {
+    setState({ status: 'loading' })
+    setAttempt((count) => count + 1)
+  }
+
+  const chooseFile = (file: File | undefined) => {
+    if (!file) return
+    setState({ status: 'loading' })
+    setSource(createDataSource(config, file))
+  }
+
+  if (preview) {
+    return (
+      <App
+        key={`preview-${preview.fileName}`}
+        report={preview.report}
+        source={createPreviewSource(preview)}
+        preview={preview}
+        onPreview={setPreview}
+        onExitPreview={() => setPreview(null)}
+      />
+    )
+  }
+
+  if (source && state.status === 'ready') {
+    return <App key="data" report={state.report} source={source} onPreview={setPreview} />
+  }
+
+  return (
+    <div className="app-container" data-theme={colorScheme}>
+      <main className="data-source-status">
+        {!source && (
+          <FormGroup>
+            <h1>Open Data Portals by Jurisdiction</h1>
+            <Label htmlFor="data-source-file">Choose a portal inventory (CSV or JSON with the sheet's columns)</Label>
+            <FileInput
+              id="data-source-file"
+              name="data-source-file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={(event) => chooseFile(event.target.files?.[0])}
+            />
+          </FormGroup>
+        )}
+
+        {source && state.status === 'loading' && (
+          <p role="status" className="data-source-loading">
+            Loading portal data from {source.label}…
+          </p>
+        )}
+
+        {source && state.status === 'error' && (
+          <Alert type="error" headingLevel="h1" heading="Could not load portal data">
+            <p>
+              {source.label}: {state.message}
+            </p>
+            <div className="data-source-actions">
+              <Button type="button" onClick={retry}>
+                Try again
+              </Button>
+              {source.kind === 'file' && (
+                <Button type="button" outline onClick={() => setSource(null)}>
+                  Choose another file
+                </Button>
+              )}
+              {source.kind !== 'bundled' && (
+                <a className="usa-button usa-button--outline" href={defaultSourceHref()}>
+                  Use the default data
+                </a>
+              )}
+            </div>
+          </Alert>
+        )}
+      </main>
+    </div>
+  )
+}
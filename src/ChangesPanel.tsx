@@ -0,0 +1,84 @@
+import { Button } from '@trussworks/react-uswds'
+import type { SnapshotChange, SnapshotChanges } from './dataLoader'
+
+interface ChangesPanelProps {
+  changes: SnapshotChanges
+  onSelect: (geoid: string, name: string) => void
+}
+
+function formatDate(date: string): string {
+  // Dates are YYYY-MM-DD; parse as local noon so the day never shifts
+  return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+function ChangeList({
+  title,
+  items,
+  onSelect,
+}: {
+  title: string
+  items: SnapshotChange[]
+  onSelect?: (geoid: string, name: string) => void
+}) {
+  if (items.length === 0) return null
+
+  return (
+    <div className="changes-group">
+      <h3>{title} ({items.length})</h3>
+      <ul className="changes-list">
+        {items.map((item) => (
+          <li key={`${item.jurisdictionId}-${item.url}`}>
+            {onSelect ? (
+              <Button
+                type="button"
+                unstyled
+                className="change-link"
+                onClick={() => onSelect(item.jurisdictionId, item.jurisdiction)}
+              >
+                {item.jurisdiction}
+              </Button>
+            ) : (
+              <span>{item.jurisdiction}</span>
+            )}
+            {item.previousUrl && <span className="change-detail"> — new portal URL</span>}
+            {!item.previousUrl && item.fields && (
+              <span className="change-detail"> — {item.fields.join(', ')} updated</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * "What's changed" disclosure listing portals added, changed or removed
+ * since the previous dated snapshot. Added and changed entries fly the map
+ * to the jurisdiction and select it; removed ones are no longer in the data.
+ */
+export function ChangesPanel({ changes, onSelect }: ChangesPanelProps) {
+  const total = changes.added.length + changes.changed.length + changes.removed.length
+
+  if (!changes.previousSnapshot) return null
+
+  return (
+    <details className="changes-panel">
+      <summary>
+        What's changed since {formatDate(changes.previousSnapshot)} ({total})
+      </summary>
+      {total === 0 ? (
+        <p className="changes-empty">No portals were added, changed or removed.</p>
+      ) : (
+        <>
+          <ChangeList title="Recently added" items={changes.added} onSelect={onSelect} />
+          <ChangeList title="Changed" items={changes.changed} onSelect={onSelect} />
+          <ChangeList title="Removed" items={changes.removed} />
+        </>
+      )}
+    </details>
+  )
+}
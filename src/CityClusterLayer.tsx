@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react'
+import { CircleMarker, Marker, Popup, Tooltip, useMap, useMapEvents } from 'react-leaflet'
+import { divIcon } from 'leaflet'
+import type { Map as LeafletMap } from 'leaflet'
+import type { BBox, Feature, Point } from 'geojson'
+import Supercluster from 'supercluster'
+import type { LayerColors, MapTheme } from './themes'
+import { makeFeatureFocusable } from './mapKeyboard'
+import { createLogger } from './logger'
+
+const log = createLogger('map')
+
+// Cities are clustered up to this zoom; above it every location is drawn on its own
+const CLUSTER_MAX_ZOOM = 8
+// Cluster radius in pixels
+const CLUSTER_RADIUS = 45
+
+interface CityRef {
+  id: string
+  name: string
+  governmentType: string
+}
+
+/** One map location; several cities only when they share exact coordinates */
+interface LocationProps {
+  cities: CityRef[]
+}
+
+interface ClusterProps {
+  count: number
+}
+
+interface CityClusterLayerProps {
+  cityFeatures: Array<Feature<Point>>
+  onFeatureClick: (geoid: string, name: string) => void
+  highlightId?: string | null
+  theme: MapTheme
+}
+
+/**
+ * Group city features that share coordinates into one point, so a cluster
+ * can always split on zoom and stacked cities get a chooser instead.
+ */
+function groupByLocation(cityFeatures: Array<Feature<Point>>): Array<Supercluster.PointFeature<LocationProps>> {
+  const byCoords = new Map<string, Supercluster.PointFeature<LocationProps>>()
+
+  cityFeatures.forEach((feature) => {
+    const [lon, lat] = feature.geometry.coordinates
+    const key = `${lon},${lat}`
+    const city: CityRef = {
+      id: feature.properties?.CSV_ID as string,
+      name: feature.properties?.name as string,
+      governmentType: feature.properties?.governmentType as string,
+    }
+
+    const existing = byCoords.get(key)
+    if (existing) {
+      existing.properties.cities.push(city)
+    } else {
+      byCoords.set(key, {
+        type: 'Feature',
+        properties: { cities: [city] },
+        geometry: { type: 'Point', coordinates: [lon, lat] },
+      })
+    }
+  })
+
+  return Array.from(byCoords.values())
+}
+
+function clusterIcon(count: number, colors: LayerColors, highlighted = false) {
+  const size = Math.round(24 + Math.min(Math.log2(count), 6) * 4)
+  return divIcon({
+    className: highlighted ? 'city-cluster highlighted' : 'city-cluster',
+    iconSize: [size, size],
+    html: `<span style="background:${colors.fill};border-color:${colors.stroke}">${count}</span>`,
+  })
+}
+
+function viewOf(map: LeafletMap) {
+  const bounds = map.getBounds()
+  return {
+    zoom: Math.round(map.getZoom()),
+    bbox: [bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()] as BBox,
+  }
+}
+
+/**
+ * City markers, clustered at low zoom. Clicking a cluster zooms to where it
+ * splits apart; clicking a location shared by several cities opens a chooser.
+ * A highlighted city is drawn larger, or its cluster outlined.
+ */
+export function CityClusterLayer({ cityFeatures, onFeatureClick, highlightId, theme }: CityClusterLayerProps) {
+  const colors = theme.colors.place
+  const map = useMap()
+  const [view, setView] = useState(() => viewOf(map))
+
+  useMapEvents({
+    moveend: () => setView(viewOf(map)),
+  })
+
+  const index = useMemo(() => {
+    const cluster = new Supercluster<LocationProps, ClusterProps>({
+      radius: CLUSTER_RADIUS,
+      maxZoom: CLUSTER_MAX_ZOOM,
+      map: (props) => ({ count: props.cities.length }),
+      reduce: (accumulated, props) => {
+        accumulated.count += props.count
+      },
+    })
+    cluster.load(groupByLocation(cityFeatures))
+    return cluster
+  }, [cityFeatures])
+
+  const clusters = useMemo(() => index.getClusters(view.bbox, view.zoom), [index, view])
+
+  // Cluster containing the highlighted city, if it is clustered at this zoom
+  const highlightedClusterId = useMemo(() => {
+    if (!highlightId) return null
+    const cluster = clusters.find((item) =>
+      'cluster' in item.properties && item.properties.cluster &&
+      index.getLeaves(item.properties.cluster_id, Infinity)
+        .some((leaf) => leaf.properties.cities.some((city) => city.id === highlightId))
+    )
+    return cluster && 'cluster_id' in cluster.properties ? cluster.properties.cluster_id : null
+  }, [clusters, index, highlightId])
+
+  const chooseCity = (city: CityRef) => {
+    map.closePopup()
+    onFeatureClick(city.id, city.name)
+  }
+
+  return (
+    <>
+      {clusters.map((item) => {
+        const [lon, lat] = item.geometry.coordinates
+        const props = item.properties
+
+        if ('cluster' in props && props.cluster) {
+          return (
+            <Marker
+              key={`cluster-${props.cluster_id}`}
+              position={[lat, lon]}
+              icon={clusterIcon(props.count, colors, props.cluster_id === highlightedClusterId)}
+              title={`${props.count} cities`}
+              eventHandlers={{
+                click: () => {
+                  const zoom = Math.min(index.getClusterExpansionZoom(props.cluster_id), map.getMaxZoom())
+                  map.flyTo([lat, lon], zoom)
+                },
+                add: (event) => makeFeatureFocusable(event.target, `${props.count} cities, zoom in`),
+              }}
+            />
+          )
+        }
+
+        const { cities } = props as LocationProps
+
+        if (cities.length > 1) {
+          return (
+            <Marker
+              key={`stack-${lon},${lat}`}
+              position={[lat, lon]}
+              icon={clusterIcon(cities.length, colors, cities.some((city) => city.id === highlightId))}
+              title={`${cities.length} cities at this location`}
+              eventHandlers={{
+                add: (event) => makeFeatureFocusable(event.target, `${cities.length} jurisdictions at this location, choose one`),
+              }}
+            >
+              <Popup>
+                <p className="city-chooser-heading">{cities.length} jurisdictions at this location</p>
+                <ul className="city-chooser">
+                  {cities.map((city, i) => (
+                    <li key={`${city.id}-${i}`}>
+                      <button type="button" className="usa-button usa-button--unstyled" onClick={() => chooseCity(city)}>
+                        {city.name}
+                      </button>
+                      <span className="city-chooser-meta"> · {city.governmentType}</span>
+                    </li>
+                  ))}
+                </ul>
+              </Popup>
+            </Marker>
+          )
+        }
+
+        const city = cities[0]
+        const highlighted = city.id === highlightId
+        return (
+          <CircleMarker
+            key={city.id}
+            center={[lat, lon]}
+            radius={highlighted ? 10 : 6}
+            fillColor={colors.fill}
+            color={colors.stroke}
+            weight={highlighted ? 4 : 2}
+            opacity={1}
+            fillOpacity={0.8}
+            eventHandlers={{
+              click: () => {
+                log.debug('City clicked:', city.id, city.name)
+                onFeatureClick(city.id, city.name)
+              },
+              add: (event) => makeFeatureFocusable(event.target, city.name),
+            }}
+          >
+            <Tooltip sticky>{city.name}</Tooltip>
+          </CircleMarker>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react'
+import { Button, Table } from '@trussworks/react-uswds'
+import type { DashboardRecord } from './dataLoader'
+import { COMPARE_MAX, COMPARE_MIN, buildComparison } from './compare'
+
+interface CompareViewProps {
+  /** Selected jurisdiction IDs, in selection order */
+  selectedIds: Set<string>
+  records: DashboardRecord[]
+  onRemove: (jurisdictionId: string) => void
+  onClose: () => void
+}
+
+/**
+ * Selected jurisdictions side by side, with differing rows highlighted.
+ * The view is part of the URL (`compare=1`) and is the only thing printed
+ * while open.
+ */
+export function CompareView({ selectedIds, records, onRemove, onClose }: CompareViewProps) {
+  const [linkStatus, setLinkStatus] = useState('')
+  const comparison = useMemo(() => buildComparison(Array.from(selectedIds), records), [selectedIds, records])
+  const { columns, rows, omitted } = comparison
+
+  const copyLink = () => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => setLinkStatus('Link copied'))
+      .catch(() => setLinkStatus('Could not copy; use the address bar instead'))
+  }
+
+  return (
+    <section className="results-section compare-view" aria-labelledby="compare-heading">
+      <div className="compare-header">
+        <h2 id="compare-heading">Compare jurisdictions ({columns.length})</h2>
+        <div className="compare-actions">
+          <Button type="button" outline onClick={() => window.print()} disabled={columns.length < COMPARE_MIN}>
+            Print
+          </Button>
+          <Button type="button" outline onClick={copyLink}>
+            Copy link
+          </Button>
+          <Button type="button" unstyled onClick={onClose} className="clear-button">
+            Close
+          </Button>
+          <span className="compare-link-status" aria-live="polite">
+            {linkStatus}
+          </span>
+        </div>
+      </div>
+
+      {columns.length < COMPARE_MIN ? (
+        <p>Select at least {COMPARE_MIN} jurisdictions to compare them.</p>
+      ) : (
+        <>
+          <p className="compare-legend">
+            <span className="compare-differs-swatch" aria-hidden="true" /> Highlighted rows differ between jurisdictions.
+          </p>
+          <div className="table-wrapper">
+            <Table bordered fullWidth className="compare-table">
+              <thead>
+                <tr>
+                  <th scope="col">Attribute</th>
+                  {columns.map((column) => (
+                    <th scope="col" key={column.jurisdictionId}>
+                      <span className="compare-name">{column.jurisdiction}</span>
+                      <span className="compare-id">{column.jurisdictionId}</span>
+                      <Button
+                        type="button"
+                        unstyled
+                        onClick={() => onRemove(column.jurisdictionId)}
+                        className="remove-button compare-remove"
+                        aria-label={`Remove ${column.jurisdiction} from the selection`}
+                      >
+                        Remove
+                      </Button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.key} className={row.differs ? 'compare-differs' : undefined}>
+                    <th scope="row">
+                      {row.label}
+                      {row.differs && <span className="usa-sr-only"> (values differ)</span>}
+                    </th>
+                    {row.values.map((value, index) => (
+                      <td key={columns[index].jurisdictionId}>
+                        {row.key === 'portals' && value !== '—'
+                          ? value.split('\n').map((url) => (
+                              <a key={url} href={url} target="_blank" rel="noreferrer" className="compare-link">
+                                {url}
+                              </a>
+                            ))
+                          : value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+        </>
+      )}
+      {omitted.length > 0 && (
+        <p className="compare-note">
+          Only the first {COMPARE_MAX} selected jurisdictions are compared; {omitted.length} more are not shown.
+        </p>
+      )}
+    </section>
+  )
+}
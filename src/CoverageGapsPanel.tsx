@@ -0,0 +1,172 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button, Checkbox, FormGroup, Label, Table } from '@trussworks/react-uswds'
+import type { DashboardRecord } from './dataLoader'
+import { downloadFile } from './exporters'
+import { loadCountyGeometry } from './geometryLoader'
+import {
+  GAP_KIND_LABELS,
+  GAP_THRESHOLDS,
+  findCoverageGaps,
+  gapsFileName,
+  gapsToCsv,
+  hasGapPopulation,
+  type GapKind,
+} from './coverageGaps'
+import { createLogger } from './logger'
+
+const log = createLogger('gaps')
+
+// Gaps listed before "Show all"
+const INITIAL_ROWS = 25
+
+interface CoverageGapsPanelProps {
+  /** All loaded records; filters don't change what counts as covered */
+  records: DashboardRecord[]
+  kind: GapKind
+  threshold: number
+  showOnMap: boolean
+  onKindChange: (kind: GapKind) => void
+  onThresholdChange: (threshold: number) => void
+  onShowOnMapChange: (show: boolean) => void
+}
+
+/**
+ * Large jurisdictions without a known portal, ranked by population, with a
+ * toggle for the map's gap layer and a CSV download.
+ */
+export function CoverageGapsPanel({
+  records,
+  kind,
+  threshold,
+  showOnMap,
+  onKindChange,
+  onThresholdChange,
+  onShowOnMapChange,
+}: CoverageGapsPanelProps) {
+  const [countyNames, setCountyNames] = useState<Map<string, string>>(new Map())
+  const [showAll, setShowAll] = useState(false)
+
+  // County names come from the bundled geometry
+  useEffect(() => {
+    let cancelled = false
+    loadCountyGeometry()
+      .then((geometry) => {
+        if (cancelled) return
+        const names = new Map<string, string>()
+        geometry.features.forEach((feature) => {
+          if (feature.properties?.name) names.set(String(feature.id).padStart(5, '0'), feature.properties.name)
+        })
+        setCountyNames(names)
+      })
+      .catch((error) => log.error('Error loading county names:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const gaps = useMemo(
+    () => findCoverageGaps(records, kind, threshold, kind === 'county' ? countyNames : undefined),
+    [records, kind, threshold, countyNames]
+  )
+  const visibleGaps = showAll ? gaps : gaps.slice(0, INITIAL_ROWS)
+  const hasPopulation = hasGapPopulation(kind)
+
+  const exportGaps = () => {
+    downloadFile(gapsFileName(kind), gapsToCsv(gaps, kind, threshold), 'csv')
+  }
+
+  return (
+    <section className="results-section coverage-gaps" aria-labelledby="gaps-heading">
+      <h2 id="gaps-heading">Coverage gaps ({gaps.length})</h2>
+      <p className="coverage-gaps-intro">
+        {GAP_KIND_LABELS[kind]} with at least {threshold.toLocaleString('en-US')} people and no known open data portal.
+      </p>
+
+      <div className="coverage-gaps-controls">
+        <FormGroup>
+          <Label htmlFor="gaps-kind">Jurisdictions</Label>
+          <select
+            id="gaps-kind"
+            className="usa-select"
+            value={kind}
+            onChange={(event) => onKindChange(event.target.value as GapKind)}
+          >
+            {(Object.keys(GAP_KIND_LABELS) as GapKind[]).map((option) => (
+              <option key={option} value={option} disabled={!hasGapPopulation(option)}>
+                {GAP_KIND_LABELS[option]}
+                {!hasGapPopulation(option) && ' (no population data bundled)'}
+              </option>
+            ))}
+          </select>
+        </FormGroup>
+        <FormGroup>
+          <Label htmlFor="gaps-threshold">Population at least</Label>
+          <select
+            id="gaps-threshold"
+            className="usa-select"
+            value={threshold}
+            onChange={(event) => onThresholdChange(Number(event.target.value))}
+          >
+            {GAP_THRESHOLDS.map((value) => (
+              <option key={value} value={value}>
+                {value.toLocaleString('en-US')}
+              </option>
+            ))}
+          </select>
+        </FormGroup>
+        <Checkbox
+          id="gaps-show-on-map"
+          name="gaps-show-on-map"
+          label="Shade gaps on the map"
+          checked={showOnMap}
+          disabled={kind !== 'county'}
+          onChange={(event) => onShowOnMapChange(event.target.checked)}
+        />
+        <Button type="button" outline onClick={exportGaps} disabled={gaps.length === 0}>
+          Download CSV
+        </Button>
+      </div>
+      {kind === 'place' && (
+        <p className="coverage-gaps-note">Place gaps are listed only; place boundaries are not bundled for the map.</p>
+      )}
+
+      {!hasPopulation ? (
+        <p>No population estimates are bundled for {GAP_KIND_LABELS[kind].toLowerCase()}.</p>
+      ) : gaps.length === 0 ? (
+        <p>Every {kind} above this threshold has a known portal.</p>
+      ) : (
+        <>
+          <div className="table-wrapper">
+            <Table bordered fullWidth>
+              <thead>
+                <tr>
+                  <th scope="col">Rank</th>
+                  <th scope="col">{kind === 'county' ? 'County' : 'Place'}</th>
+                  <th scope="col">State</th>
+                  <th scope="col">GEOID</th>
+                  <th scope="col">Population ({gaps[0].year})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleGaps.map((gap) => (
+                  <tr key={gap.geoid}>
+                    <td>{gap.rank}</td>
+                    <td>{gap.name}</td>
+                    <td>{gap.state}</td>
+                    <td>{gap.geoid}</td>
+                    <td>{gap.population.toLocaleString('en-US')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          </div>
+          {gaps.length > INITIAL_ROWS && (
+            <Button type="button" unstyled onClick={() => setShowAll((value) => !value)}>
+              {showAll ? `Show the top ${INITIAL_ROWS}` : `Show all ${gaps.length}`}
+            </Button>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
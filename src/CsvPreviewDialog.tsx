@@ -0,0 +1,182 @@
+import { useRef, useState } from 'react'
+import {
+  Alert,
+  Button,
+  FileInput,
+  FormGroup,
+  Label,
+  Modal,
+  ModalFooter,
+  ModalHeading,
+  Table,
+  type FileInputRef,
+  type ModalRef,
+} from '@trussworks/react-uswds'
+import { previewCsv, type CsvPreview, type PreviewIssue } from './csvPreview'
+import { createLogger } from './logger'
+
+const log = createLogger('preview')
+
+function previewSummary(preview: CsvPreview): string {
+  const { report, issues } = preview
+  const skipped = report.dropped.length
+  const records = `${report.records.length} of ${report.rowsLoaded} rows loaded`
+  const problems = issues.length === 1 ? '1 issue' : `${issues.length} issues`
+  return skipped > 0 ? `${records} (${skipped} skipped), ${problems}` : `${records}, ${problems}`
+}
+
+/**
+ * Row-level issues in a previewed CSV, by line number.
+ */
+export function PreviewIssuesTable({ issues }: { issues: PreviewIssue[] }) {
+  if (issues.length === 0) {
+    return <p>No issues found.</p>
+  }
+
+  return (
+    <div className="table-wrapper preview-issues">
+      <Table bordered compact fullWidth>
+        <thead>
+          <tr>
+            <th scope="col">Line</th>
+            <th scope="col">Jurisdiction</th>
+            <th scope="col">ID</th>
+            <th scope="col">Issue</th>
+          </tr>
+        </thead>
+        <tbody>
+          {issues.map((issue, i) => (
+            <tr key={`${issue.line}-${issue.code}-${i}`}>
+              <td>{issue.line}</td>
+              <td>{issue.jurisdiction}</td>
+              <td>{issue.jurisdictionId}</td>
+              <td>
+                <span className={`usa-tag preview-severity ${issue.severity}`}>{issue.severity}</span>{' '}
+                {issue.message}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </Table>
+    </div>
+  )
+}
+
+interface CsvPreviewDialogProps {
+  onShowOnMap: (preview: CsvPreview) => void
+}
+
+/**
+ * "Preview your own CSV": drop an export of the sheet, review row-level
+ * issues, then show it on the map in place of the loaded data.
+ */
+export function CsvPreviewDialog({ onShowOnMap }: CsvPreviewDialogProps) {
+  const modalRef = useRef<ModalRef>(null)
+  const fileInputRef = useRef<FileInputRef>(null)
+  const [preview, setPreview] = useState<CsvPreview | null>(null)
+  const [error, setError] = useState('')
+
+  const readFile = async (file: File | undefined) => {
+    setPreview(null)
+    setError('')
+    if (!file) return
+
+    try {
+      setPreview(previewCsv(file.name, await file.text()))
+    } catch (err) {
+      log.warn(`Could not preview ${file.name}:`, err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }
+
+  const close = () => {
+    modalRef.current?.toggleModal(undefined, false)
+    fileInputRef.current?.clearFiles()
+    setPreview(null)
+    setError('')
+  }
+
+  const showOnMap = () => {
+    if (!preview) return
+    onShowOnMap(preview)
+    close()
+  }
+
+  return (
+    <>
+      <Button type="button" outline onClick={() => modalRef.current?.toggleModal(undefined, true)}>
+        Preview your own CSV
+      </Button>
+      <Modal id="csv-preview-modal" ref={modalRef} isLarge aria-labelledby="csv-preview-heading">
+        <ModalHeading id="csv-preview-heading">Preview your own CSV</ModalHeading>
+        <p>
+          Check an edited export of the sheet before it becomes a snapshot. The file is read in your browser and
+          shown on the map until you exit the preview; nothing is uploaded or saved.
+        </p>
+        <FormGroup error={Boolean(error)}>
+          <Label htmlFor="csv-preview-file">CSV file with the sheet's column headers</Label>
+          <FileInput
+            id="csv-preview-file"
+            name="csv-preview-file"
+            accept=".csv,text/csv"
+            ref={fileInputRef}
+            onChange={(event) => void readFile(event.target.files?.[0])}
+          />
+        </FormGroup>
+
+        {error && (
+          <Alert type="error" headingLevel="h3" heading="Could not read this file" slim>
+            {error}
+          </Alert>
+        )}
+
+        {preview && (
+          <div className="preview-results" aria-live="polite">
+            <p>
+              <strong>{preview.fileName}</strong>: {previewSummary(preview)}
+            </p>
+            <PreviewIssuesTable issues={preview.issues} />
+          </div>
+        )}
+
+        <ModalFooter>
+          <div className="preview-actions">
+            <Button type="button" onClick={showOnMap} disabled={!preview || preview.report.records.length === 0}>
+              Show on map
+            </Button>
+            <Button type="button" unstyled onClick={close}>
+              Cancel
+            </Button>
+          </div>
+        </ModalFooter>
+      </Modal>
+    </>
+  )
+}
+
+interface PreviewBannerProps {
+  preview: CsvPreview
+  onExit: () => void
+}
+
+/**
+ * Shown while a previewed CSV replaces the loaded data.
+ */
+export function PreviewBanner({ preview, onExit }: PreviewBannerProps) {
+  return (
+    <Alert type="info" headingLevel="h2" heading={`Previewing ${preview.fileName}`} className="preview-banner">
+      <p>
+        {previewSummary(preview)}. This data is only shown in this tab; the bundled snapshot is unchanged.
+      </p>
+      {preview.issues.length > 0 && (
+        <details>
+          <summary>Show issues</summary>
+          <PreviewIssuesTable issues={preview.issues} />
+        </details>
+      )}
+      <Button type="button" outline onClick={onExit}>
+        Exit preview
+      </Button>
+    </Alert>
+  )
+}
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button, Table } from '@trussworks/react-uswds'
+import type { LoadReport } from './dataLoader'
+import type { DashboardFilters } from './filters'
+import { loadCountyGeometry, loadStateGeometry } from './geometryLoader'
+import { buildPipelineDiagnostics, getWatchList } from './diagnostics'
+import { createLogger } from './logger'
+
+const log = createLogger('diagnostics')
+
+// Dropped records listed before the rest are summarized
+const DROPPED_LIMIT = 50
+
+interface DiagnosticsDrawerProps {
+  report: LoadReport
+  filters: DashboardFilters
+}
+
+/**
+ * Pipeline counts for maintainers, shown with ?debug=1: rows loaded through
+ * map features created, every dropped record with its reason, and whether
+ * each watched jurisdiction made it onto the map.
+ */
+export function DiagnosticsDrawer({ report, filters }: DiagnosticsDrawerProps) {
+  const [open, setOpen] = useState(true)
+  const [countyIds, setCountyIds] = useState<string[] | null>(null)
+  const [stateIds, setStateIds] = useState<string[]>([])
+  const [watch] = useState(() => getWatchList(window.location.search))
+
+  useEffect(() => {
+    let cancelled = false
+    loadCountyGeometry()
+      .then((geometry) => {
+        if (!cancelled) setCountyIds(geometry.features.map((feature) => String(feature.id).padStart(5, '0')))
+      })
+      .catch((error) => log.error('Error loading county geometry:', error))
+    loadStateGeometry()
+      .then((geometry) => {
+        if (!cancelled) setStateIds(geometry.features.map((feature) => String(feature.id).padStart(2, '0')))
+      })
+      .catch((error) => log.error('Error loading state geometry:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const diagnostics = useMemo(
+    () => buildPipelineDiagnostics(report, filters, countyIds ?? [], watch, stateIds),
+    [report, filters, countyIds, watch, stateIds]
+  )
+
+  useEffect(() => {
+    if (countyIds) log.debug('Dropped records:', diagnostics.dropped)
+  }, [diagnostics, countyIds])
+
+  return (
+    <aside className={open ? 'diagnostics-drawer open' : 'diagnostics-drawer'} aria-labelledby="diagnostics-heading">
+      <div className="diagnostics-header">
+        <h2 id="diagnostics-heading">Diagnostics</h2>
+        <Button type="button" unstyled onClick={() => setOpen((value) => !value)} aria-expanded={open}>
+          {open ? 'Hide' : 'Show'}
+        </Button>
+      </div>
+      {open && (
+        <div className="diagnostics-body">
+          {countyIds === null && <p className="diagnostics-note">Loading county geometry…</p>}
+
+          <Table bordered compact fullWidth>
+            <caption>Pipeline</caption>
+            <thead>
+              <tr>
+                <th scope="col">Stage</th>
+                <th scope="col">Count</th>
+                <th scope="col">Dropped</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.stages.map((stage) => (
+                <tr key={stage.stage}>
+                  <th scope="row">{stage.label}</th>
+                  <td>{stage.count.toLocaleString('en-US')}</td>
+                  <td>{stage.dropped > 0 ? stage.dropped.toLocaleString('en-US') : '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+
+          {diagnostics.watched.length > 0 && (
+            <Table bordered compact fullWidth>
+              <caption>Watched jurisdictions</caption>
+              <thead>
+                <tr>
+                  <th scope="col">ID</th>
+                  <th scope="col">Jurisdiction</th>
+                  <th scope="col">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {diagnostics.watched.map((entry) => (
+                  <tr key={entry.jurisdictionId} className={entry.onMap ? undefined : 'diagnostics-missing'}>
+                    <td>{entry.jurisdictionId}</td>
+                    <td>{entry.jurisdiction}</td>
+                    <td>{entry.status}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </Table>
+          )}
+
+          <Table bordered compact fullWidth>
+            <caption>Dropped records ({diagnostics.dropped.length})</caption>
+            <thead>
+              <tr>
+                <th scope="col">Stage</th>
+                <th scope="col">ID</th>
+                <th scope="col">Jurisdiction</th>
+                <th scope="col">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diagnostics.dropped.slice(0, DROPPED_LIMIT).map((entry, i) => (
+                <tr key={`${entry.stage}-${entry.jurisdictionId}-${i}`}>
+                  <td>{entry.stage}</td>
+                  <td>{entry.jurisdictionId}</td>
+                  <td>{entry.jurisdiction}</td>
+                  <td>{entry.reason}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+          {diagnostics.dropped.length > DROPPED_LIMIT && (
+            <p className="diagnostics-note">
+              Showing {DROPPED_LIMIT} of {diagnostics.dropped.length}; the full list is logged to the console.
+            </p>
+          )}
+        </div>
+      )}
+    </aside>
+  )
+}
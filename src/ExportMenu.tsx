@@ -0,0 +1,109 @@
+import { useState } from 'react'
+import { Button, Fieldset, Radio } from '@trussworks/react-uswds'
+import type { DashboardRecord } from './dataLoader'
+import { loadCountyGeometry, loadStateGeometry } from './geometryLoader'
+import {
+  downloadFile,
+  exportFileName,
+  toCsv,
+  toGeoJson,
+  toJson,
+  type ExportFormat,
+  type ExportMetadata,
+  type ExportScope,
+} from './exporters'
+import { createLogger } from './logger'
+
+const log = createLogger('export')
+
+interface ExportMenuProps {
+  filteredRows: DashboardRecord[]
+  selectedRows: DashboardRecord[]
+  filters: ExportMetadata['filters']
+  /** Where the records came from and when that data was generated */
+  source: Pick<ExportMetadata, 'generatedAt' | 'sourceUrl'>
+}
+
+/**
+ * Download the filtered or selected jurisdictions as CSV, JSON or GeoJSON.
+ */
+export function ExportMenu({ filteredRows, selectedRows, filters, source }: ExportMenuProps) {
+  const [scope, setScope] = useState<ExportScope>('filtered')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState('')
+
+  const records = scope === 'selected' ? selectedRows : filteredRows
+
+  const handleExport = async (format: ExportFormat) => {
+    const meta: ExportMetadata = {
+      generatedAt: source.generatedAt,
+      exportedAt: new Date().toISOString(),
+      sourceUrl: source.sourceUrl,
+      scope,
+      filters,
+      recordCount: records.length,
+    }
+
+    setError('')
+    setBusy(true)
+    try {
+      let content: string
+      if (format === 'csv') {
+        content = toCsv(records, meta)
+      } else if (format === 'json') {
+        content = toJson(records, meta)
+      } else {
+        content = toGeoJson(
+          records,
+          meta,
+          await loadCountyGeometry(),
+          records.some((record) => record.kind === 'state') ? await loadStateGeometry() : null
+        )
+      }
+      downloadFile(exportFileName(scope, format), content, format)
+    } catch (err) {
+      log.error('Error exporting data:', err)
+      setError('Export failed. Please try again.')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="export-menu">
+      <Fieldset legend="Export" legendStyle="srOnly">
+        <legend className="checkbox-label">Export</legend>
+        <Radio
+          id="export-scope-filtered"
+          name="export-scope"
+          value="filtered"
+          label={`Filtered results (${filteredRows.length})`}
+          checked={scope === 'filtered'}
+          onChange={() => setScope('filtered')}
+        />
+        <Radio
+          id="export-scope-selected"
+          name="export-scope"
+          value="selected"
+          label={`Selected jurisdictions (${selectedRows.length})`}
+          checked={scope === 'selected'}
+          onChange={() => setScope('selected')}
+        />
+      </Fieldset>
+      <div className="export-buttons" role="group" aria-label="Download format">
+        {(['csv', 'json', 'geojson'] as ExportFormat[]).map((format) => (
+          <Button
+            key={format}
+            type="button"
+            outline
+            disabled={busy || records.length === 0}
+            onClick={() => void handleExport(format)}
+          >
+            {format === 'geojson' ? 'GeoJSON' : format.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+      {error && <p className="export-error" role="alert">{error}</p>}
+    </div>
+  )
+}
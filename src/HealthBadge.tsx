@@ -0,0 +1,29 @@
+import type { PortalHealth } from './dataLoader'
+
+const LABELS: Record<PortalHealth['status'], string> = {
+  reachable: 'Reachable',
+  redirected: 'Redirected',
+  broken: 'Broken',
+}
+
+function describe(health: PortalHealth): string {
+  const checked = `checked ${new Date(health.checkedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })}`
+  if (health.status === 'redirected') return `Redirects to ${health.finalUrl}; ${checked}`
+  if (health.status === 'broken') return `${health.error ?? 'Unreachable'}; ${checked}`
+  return `Link works; ${checked}`
+}
+
+/**
+ * Link check result for a portal URL. Renders nothing for unchecked URLs.
+ */
+export function HealthBadge({ health }: { health?: PortalHealth }) {
+  if (!health) return null
+
+  const description = describe(health)
+  return (
+    <span className={`usa-tag health-badge ${health.status}`} title={description}>
+      {LABELS[health.status]}
+      <span className="usa-sr-only">: {description}</span>
+    </span>
+  )
+}
@@ -0,0 +1,125 @@
+import { useId, useMemo, useState, type KeyboardEvent } from 'react'
+import { Label } from '@trussworks/react-uswds'
+import type { DashboardRecord } from './dataLoader'
+import { searchJurisdictions } from './search'
+
+interface JurisdictionSearchProps {
+  records: DashboardRecord[]
+  onSelect: (record: DashboardRecord) => void
+}
+
+/**
+ * Typeahead search following the ARIA combobox pattern: arrow keys move
+ * through the options, Enter chooses, Escape closes (or clears when closed).
+ */
+export function JurisdictionSearch({ records, onSelect }: JurisdictionSearchProps) {
+  const [query, setQuery] = useState('')
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(-1)
+  const baseId = useId()
+  const inputId = `${baseId}-input`
+  const listboxId = `${baseId}-listbox`
+
+  const results = useMemo(() => searchJurisdictions(records, query), [records, query])
+  const expanded = open && query.trim() !== ''
+
+  const choose = (index: number) => {
+    const result = results[index]
+    if (!result) return
+    onSelect(result.record)
+    setQuery('')
+    setOpen(false)
+    setActiveIndex(-1)
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        setOpen(true)
+        setActiveIndex((current) => (results.length === 0 ? -1 : (current + 1) % results.length))
+        break
+      case 'ArrowUp':
+        event.preventDefault()
+        setOpen(true)
+        setActiveIndex((current) => (results.length === 0 ? -1 : (current <= 0 ? results.length - 1 : current - 1)))
+        break
+      case 'Enter':
+        if (expanded && results.length > 0) {
+          event.preventDefault()
+          choose(activeIndex >= 0 ? activeIndex : 0)
+        }
+        break
+      case 'Escape':
+        if (expanded) {
+          setOpen(false)
+          setActiveIndex(-1)
+        } else {
+          setQuery('')
+        }
+        break
+    }
+  }
+
+  return (
+    <div className="jurisdiction-search">
+      <Label htmlFor={inputId}>Find a jurisdiction</Label>
+      <span className="usa-hint" id={`${baseId}-hint`}>Name, state or GEOID</span>
+      <input
+        id={inputId}
+        className="usa-input"
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-describedby={`${baseId}-hint`}
+        aria-activedescendant={expanded && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value)
+          setOpen(true)
+          setActiveIndex(-1)
+        }}
+        onKeyDown={handleKeyDown}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+      />
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label="Matching jurisdictions"
+        className="search-results"
+        hidden={!expanded}
+      >
+        {results.map((result, index) => (
+          <li
+            key={result.record.jurisdictionId}
+            id={`${listboxId}-${index}`}
+            role="option"
+            aria-selected={index === activeIndex}
+            className={index === activeIndex ? 'search-result active' : 'search-result'}
+            // Keep focus in the input so blur doesn't close the list before the click lands
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => choose(index)}
+            onMouseEnter={() => setActiveIndex(index)}
+          >
+            <span className="search-result-name">{result.record.jurisdiction}</span>
+            <span className="search-result-meta">
+              {result.record.displayGovernmentType} · {result.stateName} · {result.record.jurisdictionId}
+            </span>
+          </li>
+        ))}
+        {expanded && results.length === 0 && (
+          <li className="search-result empty" role="option" aria-disabled="true" aria-selected="false">
+            No matching jurisdictions
+          </li>
+        )}
+      </ul>
+      <span className="usa-sr-only" aria-live="polite">
+        {expanded ? `${results.length} result${results.length === 1 ? '' : 's'} available` : ''}
+      </span>
+    </div>
+  )
+}
@@ -1,17 +1,35 @@
-import { useEffect, useRef, useState } from 'react'
-import { MapContainer, TileLayer, GeoJSON, CircleMarker, Tooltip, useMap } from 'react-leaflet'
-import type { Map as LeafletMap } from 'leaflet'
-import type { FeatureCollection, Feature } from 'geojson'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { CircleMarker, MapContainer, Pane, TileLayer, GeoJSON, Tooltip, useMap, useMapEvents } from 'react-leaflet'
+import { geoJSON } from 'leaflet'
+import type { GeoJSON as LeafletGeoJSON, Layer, Map as LeafletMap, Path, PathOptions } from 'leaflet'
+import type { FeatureCollection, Feature, Point } from 'geojson'
 import 'leaflet/dist/leaflet.css'
 import type { DashboardRecord } from './dataLoader'
-import { MAP_COLORS } from './mapColors'
+import type { MapColors, MapTheme } from './themes'
+import { loadCountyGeometry, loadStateGeometry } from './geometryLoader'
+import { CityClusterLayer } from './CityClusterLayer'
+import { JURISDICTION_KINDS, type JurisdictionKind } from './jurisdictionKinds'
+import { createCityFeatures, createPointFeatures, getCountyJoinIds, matchCountyId } from './mapJoin'
+import { listMapFeatures, type MapListItem } from './mapFeatureList'
+import { makeFeatureFocusable } from './mapKeyboard'
+import { createLogger } from './logger'
 
 export type Region = 'lower48' | 'alaska' | 'hawaii'
 
+const log = createLogger('map')
+
 // Default U.S. center and zoom for consistent initial view
 const DEFAULT_US_CENTER: [number, number] = [39.8, -98.6]
 const DEFAULT_US_ZOOM = 4
 
+// Zoom level used when focusing a searched city
+const FOCUS_CITY_ZOOM = 9
+
+// Kinds drawn as plain points from their coordinates; cities have their own clustered layer
+const POINT_KINDS = JURISDICTION_KINDS
+  .filter((kind) => kind.shape === 'point' && kind.id !== 'place')
+  .map((kind) => kind.id)
+
 // Larger bounds that include Alaska and Hawaii to prevent panning off
 const US_MAX_BOUNDS: [[number, number], [number, number]] = [
   [15, -180],    // SW (includes Hawaii and Alaska)
@@ -51,25 +69,64 @@ const REGION_PRESETS: Record<Region, RegionConfig> = {
   }
 }
 
+export interface MapView {
+  center: [number, number]
+  zoom: number
+}
+
+/**
+ * A view to restore (e.g. on browser back/forward), with the same `seq`
+ * convention as MapFocusTarget. Without a `view` the map returns to the
+ * active region's default view.
+ */
+export interface MapViewTarget {
+  view?: MapView
+  seq: number
+}
+
+/**
+ * A jurisdiction to fly to. `seq` changes on every request so choosing the
+ * same jurisdiction twice still moves the map.
+ */
+export interface MapFocusTarget {
+  geoid: string
+  seq: number
+}
+
 interface USMapProps {
-  hasDataIds: Set<string>
   onFeatureClick: (geoid: string, name: string) => void
   allData: DashboardRecord[]
+  /** Layer colors and basemap (see themes.ts) */
+  theme: MapTheme
   activeRegion?: Region
+  focusTarget?: MapFocusTarget | null
+  /** View to open at instead of the default U.S. view */
+  initialView?: MapView
+  viewTarget?: MapViewTarget | null
+  onViewChange?: (view: MapView) => void
+  /** Jurisdiction ID to highlight (e.g. the hovered results table row) */
+  highlightId?: string | null
+  /** County GEOIDs to shade as coverage gaps (see coverageGaps.ts), null to hide the layer */
+  gapIds?: Set<string> | null
+  /** Called with the jurisdictions drawn, whenever they change (see mapFeatureList.ts) */
+  onFeaturesChange?: (items: MapListItem[]) => void
 }
 
 // Component to initialize map view on first load (iframe-safe)
-function InitMapView() {
+function InitMapView({ initialView }: { initialView?: MapView }) {
   const map = useMap()
   const didRun = useRef(false)
+  // Only the view at mount time matters
+  const initialViewRef = useRef(initialView)
   
   useEffect(() => {
     if (didRun.current) return
     didRun.current = true
     
+    const view = initialViewRef.current
     const timer = window.setTimeout(() => {
       map.invalidateSize()
-      map.setView(DEFAULT_US_CENTER, DEFAULT_US_ZOOM, { animate: false })
+      map.setView(view?.center ?? DEFAULT_US_CENTER, view?.zoom ?? DEFAULT_US_ZOOM, { animate: false })
     }, 150)
     
     return () => window.clearTimeout(timer)
@@ -78,161 +135,483 @@ function InitMapView() {
   return null
 }
 
-function MapViewController({ activeRegion }: { activeRegion: Region }) {
+function MapViewController({ activeRegion, keepInitialView }: { activeRegion: Region; keepInitialView: boolean }) {
   const map = useMap()
+  const isFirstRun = useRef(true)
+  const keepInitialViewRef = useRef(keepInitialView)
   
   useEffect(() => {
     const config = REGION_PRESETS[activeRegion]
-    map.setView(config.center, config.zoom, { animate: true })
+    // An initial view (e.g. from the URL) wins over the region preset on first load
+    if (!(isFirstRun.current && keepInitialViewRef.current)) {
+      map.setView(config.center, config.zoom, { animate: true })
+    }
+    isFirstRun.current = false
     map.setMaxBounds(config.maxBounds)
   }, [activeRegion, map])
 
   return null
 }
 
-export function USMap({ hasDataIds, onFeatureClick, allData, activeRegion = 'lower48' }: USMapProps) {
-  const [countiesData, setCountiesData] = useState<FeatureCollection | null>(null)
-  const [citiesData, setCitiesData] = useState<Array<Feature<any>>>([])
-  const [loading, setLoading] = useState(true)
-  const mapRef = useRef<LeafletMap | null>(null)
+interface MapViewSyncProps {
+  viewTarget?: MapViewTarget | null
+  activeRegion: Region
+  onViewChange?: (view: MapView) => void
+}
+
+// Report view changes and apply restored views
+function MapViewSync({ viewTarget, activeRegion, onViewChange }: MapViewSyncProps) {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter()
+      onViewChange?.({ center: [center.lat, center.lng], zoom: map.getZoom() })
+    },
+  })
+  // Read when a target arrives; a region change alone must not re-apply an old target
+  const activeRegionRef = useRef(activeRegion)
 
   useEffect(() => {
-    const loadGeoData = async () => {
-      try {
-        setLoading(true)
-        
-        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-        console.log('📊 STEP 4: MAP RENDERING')
-        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-        console.log('Map received hasDataIds:', hasDataIds.size, 'IDs')
-        console.log('Map received allData records:', allData.length)
-        
-        // Load county GeoJSON
-        const response = await fetch(
-          'https://raw.githubusercontent.com/plotly/datasets/master/geojson-counties-fips.json'
-        )
-        const geojson: FeatureCollection = await response.json()
-        
-        // Create ID mapping to handle both string and numeric IDs
-        const idMatchMap = new Map<string, string>()
-        geojson.features.forEach((feature) => {
-          const numericId = feature.id
-          const paddedId = String(numericId).padStart(5, '0')
-          idMatchMap.set(paddedId, paddedId)
-          idMatchMap.set(String(numericId), paddedId)
-        })
+    activeRegionRef.current = activeRegion
+  }, [activeRegion])
+
+  useEffect(() => {
+    if (!viewTarget) return
+    const { center, zoom } = viewTarget.view ?? REGION_PRESETS[activeRegionRef.current]
+    map.setView(center, zoom, { animate: false })
+  }, [viewTarget, map])
+
+  return null
+}
+
+interface MapFocusControllerProps {
+  focusTarget?: MapFocusTarget | null
+  records: DashboardRecord[]
+  countyFeaturesById: Map<string, Feature>
+  stateFeaturesById: Map<string, Feature>
+  pointFeatures: Array<Feature<Point>>
+}
+
+// Fly to a city or other marker, or fit a state or county polygon (including unified city-counties)
+function MapFocusController({ focusTarget, records, countyFeaturesById, stateFeaturesById, pointFeatures }: MapFocusControllerProps) {
+  const map = useMap()
+  // Only react to new focus requests, not to data changes
+  const indexesRef = useRef({ records, countyFeaturesById, stateFeaturesById, pointFeatures })
+
+  useEffect(() => {
+    indexesRef.current = { records, countyFeaturesById, stateFeaturesById, pointFeatures }
+  }, [records, countyFeaturesById, stateFeaturesById, pointFeatures])
+
+  useEffect(() => {
+    if (!focusTarget) return
+    const { geoid } = focusTarget
+    const indexes = indexesRef.current
+
+    const point = indexes.pointFeatures.find((f) => f.properties?.CSV_ID === geoid)
+    if (point) {
+      const [lon, lat] = point.geometry.coordinates
+      map.flyTo([lat, lon], Math.max(map.getZoom(), FOCUS_CITY_ZOOM))
+      return
+    }
+
+    const record = indexes.records.find((candidate) => candidate.jurisdictionId === geoid)
+    let area: Feature | undefined
+    if (record?.kind === 'state') {
+      area = indexes.stateFeaturesById.get(geoid)
+    } else if (record?.kind === 'county') {
+      area = indexes.countyFeaturesById.get(geoid)
+    } else if (record?.isUnified && geoid.endsWith('00')) {
+      area = indexes.countyFeaturesById.get(geoid.slice(0, 5))
+    }
+    if (area) {
+      map.flyToBounds(geoJSON(area).getBounds(), { maxZoom: FOCUS_CITY_ZOOM })
+    }
+  }, [focusTarget, map])
+
+  return null
+}
+
+const EMPTY_COLLECTION: FeatureCollection = { type: 'FeatureCollection', features: [] }
 
-        // Store the CSV_ID on each feature and filter to only those with data
-        let countyMatches = 0
-        const filteredFeatures = geojson.features.filter((feature) => {
-          const numericId = feature.id
-          const paddedId = String(numericId).padStart(5, '0')
-          const matchedId = idMatchMap.get(paddedId)
-          
-          // Check for direct 5-digit county match
-          if (matchedId && hasDataIds.has(matchedId)) {
-            if (!feature.properties) feature.properties = {}
-            feature.properties.CSV_ID = matchedId
-            countyMatches++
-            return true
-          }
-          
-          // Also check if this county has a unified city-county with a 7-digit ID
-          // For example, Denver County (08020) should match Denver city (0820000)
-          const cityStyleId = paddedId + '00' // Convert 5-digit county to 7-digit city format
-          if (hasDataIds.has(cityStyleId)) {
-            if (!feature.properties) feature.properties = {}
-            feature.properties.CSV_ID = cityStyleId
-            countyMatches++
-            return true
-          }
-          
-          return false
+function countyStyle(colors: MapColors, highlighted = false): PathOptions {
+  return {
+    fillColor: colors.county.fill,
+    weight: highlighted ? 3 : 1,
+    opacity: 1,
+    color: colors.county.stroke,
+    fillOpacity: highlighted ? 0.7 : 0.35,
+  }
+}
+
+interface CountyLayerProps {
+  featuresById: Map<string, Feature>
+  /** Dashboard IDs that can shade a county (see getCountyJoinIds) */
+  joinIds: Set<string>
+  allData: DashboardRecord[]
+  onFeatureClick: (geoid: string, name: string) => void
+  highlightId?: string | null
+  colors: MapColors
+}
+
+/**
+ * County polygons. Leaflet layers are created lazily the first time a county
+ * is shown and then reused; filter changes only add or remove layers from the
+ * group, so the map is never rebuilt and the current view is kept.
+ */
+function CountyLayer({ featuresById, joinIds, allData, onFeatureClick, highlightId, colors }: CountyLayerProps) {
+  const groupRef = useRef<LeafletGeoJSON | null>(null)
+  // Leaflet layers by 5-digit GEOID, created on first display
+  const layersRef = useRef(new Map<string, Layer>())
+  // Dashboard ID and display name for each visible county, read by click and tooltip handlers
+  const matchesRef = useRef(new Map<string, { csvId: string; name: string }>())
+  const onFeatureClickRef = useRef(onFeatureClick)
+  // 5-digit GEOID of the currently highlighted county
+  const highlightedRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    onFeatureClickRef.current = onFeatureClick
+  }, [onFeatureClick])
+
+  useEffect(() => {
+    const group = groupRef.current
+    if (!group) return
+
+    const namesById = new Map(allData.map((record) => [record.jurisdictionId, record.jurisdiction]))
+    const matches = new Map<string, { csvId: string; name: string }>()
+
+    featuresById.forEach((feature, countyId) => {
+      const csvId = matchCountyId(countyId, joinIds)
+      if (csvId) {
+        const name = namesById.get(csvId) || feature.properties?.name as string || 'County'
+        matches.set(countyId, { csvId, name })
+      }
+    })
+    matchesRef.current = matches
+
+    // Hide counties that no longer match
+    layersRef.current.forEach((layer, countyId) => {
+      if (!matches.has(countyId) && group.hasLayer(layer)) {
+        group.removeLayer(layer)
+      }
+    })
+
+    // Show matching counties, creating their layers on first use
+    matches.forEach((_match, countyId) => {
+      const layer = layersRef.current.get(countyId)
+      if (!layer) {
+        group.addData(featuresById.get(countyId)!)
+      } else if (!group.hasLayer(layer)) {
+        group.addLayer(layer)
+      }
+    })
+
+    log.debug(`County polygons to render: ${matches.size}`)
+  }, [featuresById, joinIds, allData])
+
+  const baseStyle = useMemo(() => countyStyle(colors), [colors])
+  // GeoJSON restyles every layer whenever the style prop changes, which would drop the highlight
+  const styleFeature = useCallback(() => baseStyle, [baseStyle])
+
+  // Restyle every county, including hidden ones, when the theme changes
+  useEffect(() => {
+    layersRef.current.forEach((layer) => (layer as Path).setStyle(baseStyle))
+  }, [baseStyle])
+
+  // Runs after the effects above so matchesRef reflects the current filters
+  useEffect(() => {
+    const previous = highlightedRef.current
+    if (previous) (layersRef.current.get(previous) as Path | undefined)?.setStyle(baseStyle)
+    highlightedRef.current = null
+    if (!highlightId) return
+
+    matchesRef.current.forEach((match, countyId) => {
+      const layer = layersRef.current.get(countyId) as Path | undefined
+      if (match.csvId !== highlightId || !layer) return
+      layer.setStyle(countyStyle(colors, true))
+      layer.bringToFront()
+      highlightedRef.current = countyId
+    })
+  }, [highlightId, joinIds, baseStyle, colors])
+
+  return (
+    <GeoJSON
+      ref={groupRef}
+      data={EMPTY_COLLECTION}
+      style={styleFeature}
+      onEachFeature={(feature, layer) => {
+        const countyId = String(feature.id).padStart(5, '0')
+        layersRef.current.set(countyId, layer)
+        layer.on({
+          click: () => {
+            const match = matchesRef.current.get(countyId)
+            if (!match) return
+            log.debug('County clicked:', match.csvId, match.name)
+            onFeatureClickRef.current(match.csvId, match.name)
+          },
         })
-        
-        console.log('✅ County polygons to render:', countyMatches)
-        
-        setCountiesData({
-          type: 'FeatureCollection',
-          features: filteredFeatures,
+        layer.bindTooltip(() => matchesRef.current.get(countyId)?.name ?? '', {
+          sticky: true,
         })
+        // Counties are re-added as filters change, so the label is refreshed each time
+        layer.on('add', () => makeFeatureFocusable(layer, matchesRef.current.get(countyId)?.name ?? 'County'))
+      }}
+    />
+  )
+}
+
+interface StateLayerProps {
+  featuresById: Map<string, Feature>
+  allData: DashboardRecord[]
+  onFeatureClick: (geoid: string, name: string) => void
+  highlightId?: string | null
+  theme: MapTheme
+}
 
-        // Create city markers using Latitude/Longitude from the data
-        // Only render cities (Government Type includes "City")
-        const cityFeatures: Array<Feature<any>> = []
-        let citiesWithoutCoords = 0
-        
-        console.log('Creating city markers from data with coordinates...')
-        
-        // Filter to only city records (including unified city-county)
-        const cityRecords = allData.filter(record => record.governmentTypes.includes('City'))
-        console.log(`Found ${cityRecords.length} city records (including unified)`)
-        
-        cityRecords.forEach(record => {
-          const lat = Number(record.latitude)
-          const lon = Number(record.longitude)
-          
-          // Only render if we have valid coordinates
-          if (Number.isFinite(lat) && Number.isFinite(lon)) {
-            cityFeatures.push({
-              type: 'Feature',
-              id: record.jurisdictionId,
-              properties: {
-                name: record.jurisdiction,
-                CSV_ID: record.jurisdictionId,
-                isCity: true,
+/** Outlines of states with a dashboard, drawn below counties */
+function StateLayer({ featuresById, allData, onFeatureClick, highlightId, theme }: StateLayerProps) {
+  // One outline per state, named after its first record
+  const states = useMemo(() => {
+    const byId = new Map<string, { name: string; feature: Feature }>()
+    allData.forEach((record) => {
+      const feature = featuresById.get(record.jurisdictionId)
+      if (record.kind === 'state' && feature && !byId.has(record.jurisdictionId)) {
+        byId.set(record.jurisdictionId, { name: record.jurisdiction, feature })
+      }
+    })
+    return Array.from(byId, ([id, state]) => ({ id, ...state }))
+  }, [featuresById, allData])
+
+  return (
+    <>
+      {states.map((state) => {
+        const highlighted = state.id === highlightId
+        return (
+          <GeoJSON
+            // GeoJSON data and style are read on mount only
+            key={`state-${state.id}-${highlighted}-${theme.id}`}
+            data={state.feature}
+            style={{
+              fillColor: theme.colors.state.fill,
+              color: theme.colors.state.stroke,
+              weight: highlighted ? 4 : 2,
+              opacity: 1,
+              fillOpacity: highlighted ? 0.3 : 0.12,
+            }}
+            eventHandlers={{
+              click: () => {
+                log.debug('State clicked:', state.id, state.name)
+                onFeatureClick(state.id, state.name)
               },
-              geometry: {
-                type: 'Point',
-                coordinates: [lon, lat], // GeoJSON uses [longitude, latitude]
+              add: (event) => makeFeatureFocusable(event.target, state.name),
+            }}
+          >
+            <Tooltip sticky>{state.name}</Tooltip>
+          </GeoJSON>
+        )
+      })}
+    </>
+  )
+}
+
+function gapStyle(colors: MapColors): PathOptions {
+  return {
+    fillColor: colors.gap.fill,
+    fillOpacity: 0.25,
+    color: colors.gap.stroke,
+    weight: 1.5,
+    dashArray: '4 3',
+    opacity: 1,
+  }
+}
+
+interface GapLayerProps {
+  featuresById: Map<string, Feature>
+  gapIds: Set<string>
+  theme: MapTheme
+}
+
+/** Counties above the gap threshold with no portal; they have no records, so clicks do nothing */
+function GapLayer({ featuresById, gapIds, theme }: GapLayerProps) {
+  const { collection, key } = useMemo(() => {
+    const ids = Array.from(gapIds).filter((id) => featuresById.has(id)).sort()
+    return {
+      collection: { type: 'FeatureCollection', features: ids.map((id) => featuresById.get(id)!) } as FeatureCollection,
+      key: ids.join(','),
+    }
+  }, [featuresById, gapIds])
+
+  return (
+    <GeoJSON
+      // GeoJSON data is read on mount only
+      key={`${theme.id}:${key}`}
+      data={collection}
+      style={() => gapStyle(theme.colors)}
+      onEachFeature={(feature, layer) => {
+        layer.bindTooltip(`${feature.properties?.name ?? feature.id}: no known portal`, { sticky: true })
+      }}
+    />
+  )
+}
+
+interface PointLayerProps {
+  kind: JurisdictionKind
+  features: Array<Feature<Point>>
+  onFeatureClick: (geoid: string, name: string) => void
+  highlightId?: string | null
+  colors: MapColors
+}
+
+/** Unclustered markers for tribal governments, school districts and other agencies */
+function PointLayer({ kind, features, onFeatureClick, highlightId, colors: themeColors }: PointLayerProps) {
+  const colors = themeColors[kind]
+  return (
+    <>
+      {features.map((feature) => {
+        const [lon, lat] = feature.geometry.coordinates
+        const id = feature.properties?.CSV_ID as string
+        const name = feature.properties?.name as string
+        const highlighted = id === highlightId
+        return (
+          <CircleMarker
+            key={`${kind}-${id}`}
+            center={[lat, lon]}
+            radius={highlighted ? 10 : 6}
+            fillColor={colors.fill}
+            color={colors.stroke}
+            weight={highlighted ? 4 : 2}
+            opacity={1}
+            fillOpacity={0.8}
+            eventHandlers={{
+              click: () => {
+                log.debug(`${kind} clicked:`, id, name)
+                onFeatureClick(id, name)
               },
-            })
-          } else {
-            citiesWithoutCoords++
-            console.warn(`⚠️  City missing coordinates: ${record.jurisdiction} (ID: ${record.jurisdictionId})`)
-          }
-        })
-        
-        console.log(`✅ City markers created with coordinates: ${cityFeatures.length}`)
-        if (citiesWithoutCoords > 0) {
-          console.warn(`⚠️  ${citiesWithoutCoords} cities skipped (missing coordinates)`)
-        }
-        
-        // Check for specific cities in the render list
-        const dallasCity = cityFeatures.find(f => f.properties?.name?.toLowerCase().includes('dallas') && !f.properties?.name?.toLowerCase().includes('county'))
-        const denver = cityFeatures.find(f => f.properties?.name?.toLowerCase().includes('denver'))
-        const laCity = cityFeatures.find(f => f.properties?.name?.toLowerCase().includes('los angeles'))
-        
-        console.log(dallasCity ? '✅ Dallas city marker created' : '❌ Dallas city marker NOT created')
-        console.log(denver ? '✅ Denver marker created' : '❌ Denver marker NOT created')
-        console.log(laCity ? '✅ Los Angeles city marker created' : '❌ Los Angeles city marker NOT created')
-        
-        console.log('\n📊 RENDERING SUMMARY:')
-        console.log(`  County polygons in hasDataIds: ${Array.from(hasDataIds).filter(id => id.length === 5).length}`)
-        console.log(`  County polygons to render: ${countyMatches}`)
-        console.log(`  City records in dataset: ${cityRecords.length}`)
-        console.log(`  City markers created: ${cityFeatures.length}`)
-        console.log(`  Cities dropped: ${cityRecords.length - cityFeatures.length}`)
-        
-        if (cityRecords.length !== cityFeatures.length) {
-          console.warn(`⚠️  ${cityRecords.length - cityFeatures.length} cities were dropped (missing coordinates)!`)
-        }
-        
-        console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n')
-        
-        setCitiesData(cityFeatures)
-        
+              add: (event) => makeFeatureFocusable(event.target, name),
+            }}
+          >
+            <Tooltip sticky>{name}</Tooltip>
+          </CircleMarker>
+        )
+      })}
+    </>
+  )
+}
+
+export function USMap({
+  onFeatureClick,
+  allData,
+  theme,
+  activeRegion = 'lower48',
+  focusTarget,
+  initialView,
+  viewTarget,
+  onViewChange,
+  highlightId,
+  gapIds,
+  onFeaturesChange,
+}: USMapProps) {
+  const [countyGeometry, setCountyGeometry] = useState<FeatureCollection | null>(null)
+  const [stateGeometry, setStateGeometry] = useState<FeatureCollection | null>(null)
+  const [loading, setLoading] = useState(true)
+  const mapRef = useRef<LeafletMap | null>(null)
+
+  // Load county geometry once; filter changes never refetch it
+  useEffect(() => {
+    let cancelled = false
+
+    const loadGeoData = async () => {
+      try {
+        const geojson = await loadCountyGeometry()
+        if (!cancelled) setCountyGeometry(geojson)
       } catch (error) {
-        console.error('Error loading GeoJSON:', error)
+        log.error('Error loading GeoJSON:', error)
       } finally {
-        setLoading(false)
+        if (!cancelled) setLoading(false)
       }
     }
 
-    if (hasDataIds.size > 0) {
-      void loadGeoData()
+    void loadGeoData()
+    return () => {
+      cancelled = true
     }
-  }, [hasDataIds, allData])
+  }, [])
+
+  // State outlines are only needed for state records, so they load alongside the map
+  useEffect(() => {
+    let cancelled = false
+    loadStateGeometry()
+      .then((geojson) => {
+        if (!cancelled) setStateGeometry(geojson)
+      })
+      .catch((error) => log.error('Error loading state outlines:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  // State outlines indexed by 2-digit FIPS code
+  const stateFeaturesById = useMemo(() => {
+    const index = new Map<string, Feature>()
+    stateGeometry?.features.forEach((feature) => {
+      index.set(String(feature.id).padStart(2, '0'), feature)
+    })
+    return index
+  }, [stateGeometry])
+
+  // County features indexed by 5-digit GEOID
+  const countyFeaturesById = useMemo(() => {
+    const index = new Map<string, Feature>()
+    countyGeometry?.features.forEach((feature) => {
+      index.set(String(feature.id).padStart(5, '0'), feature)
+    })
+    return index
+  }, [countyGeometry])
+
+  // Create city markers using Latitude/Longitude from the data
+  const citiesData = useMemo(() => {
+    const { features, missingCoordinates } = createCityFeatures(allData)
+    if (missingCoordinates.length > 0) {
+      log.warn(`${missingCoordinates.length} cities skipped (missing coordinates)`)
+    }
+    log.debug(`City markers created: ${features.length}`)
+    return features
+  }, [allData])
+
+  const countyJoinIds = useMemo(() => getCountyJoinIds(allData), [allData])
+
+  // Markers for the other point kinds, which have no bundled boundaries
+  const otherPoints = useMemo(
+    () => POINT_KINDS.map((kind) => {
+      const { features, missingCoordinates } = createPointFeatures(allData, kind)
+      if (missingCoordinates.length > 0) {
+        log.warn(`${missingCoordinates.length} ${kind} records skipped (missing coordinates)`)
+      }
+      return { kind, features }
+    }),
+    [allData]
+  )
+
+  const pointFeatures = useMemo(
+    () => [...citiesData, ...otherPoints.flatMap((layer) => layer.features)],
+    [citiesData, otherPoints]
+  )
+
+  // What the map draws, for the list alternative and live region outside it
+  const drawnFeatures = useMemo(
+    () => listMapFeatures(allData, {
+      counties: new Set(countyFeaturesById.keys()),
+      states: new Set(stateFeaturesById.keys()),
+    }),
+    [allData, countyFeaturesById, stateFeaturesById]
+  )
+
+  const onFeaturesChangeRef = useRef(onFeaturesChange)
+  useEffect(() => {
+    onFeaturesChangeRef.current = onFeaturesChange
+  }, [onFeaturesChange])
+
+  useEffect(() => {
+    if (!loading) onFeaturesChangeRef.current?.(drawnFeatures)
+  }, [drawnFeatures, loading])
 
   if (loading) {
     return <div style={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
@@ -243,8 +622,8 @@ export function USMap({ hasDataIds, onFeatureClick, allData, activeRegion = 'low
   return (
     <MapContainer
       ref={mapRef}
-      center={DEFAULT_US_CENTER}
-      zoom={DEFAULT_US_ZOOM}
+      center={initialView?.center ?? DEFAULT_US_CENTER}
+      zoom={initialView?.zoom ?? DEFAULT_US_ZOOM}
       minZoom={3}
       maxZoom={10}
       maxBounds={US_MAX_BOUNDS}
@@ -252,69 +631,60 @@ export function USMap({ hasDataIds, onFeatureClick, allData, activeRegion = 'low
       style={{ height: '100%', width: '100%' }}
       scrollWheelZoom={false}
     >
-      <InitMapView />
-      <MapViewController activeRegion={activeRegion} />
-      
-      <TileLayer
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+      <InitMapView initialView={initialView} />
+      <MapViewController activeRegion={activeRegion} keepInitialView={initialView !== undefined} />
+      <MapViewSync viewTarget={viewTarget} activeRegion={activeRegion} onViewChange={onViewChange} />
+      <MapFocusController
+        focusTarget={focusTarget}
+        records={allData}
+        countyFeaturesById={countyFeaturesById}
+        stateFeaturesById={stateFeaturesById}
+        pointFeatures={pointFeatures}
       />
+      
+      <TileLayer attribution={theme.basemap.attribution} url={theme.basemap.url} />
 
-      {countiesData && (
-        <GeoJSON
-          key={`counties-${hasDataIds.size}`}
-          data={countiesData}
-          style={() => ({
-            fillColor: MAP_COLORS.county.fill,
-            weight: 1,
-            opacity: 1,
-            color: MAP_COLORS.county.stroke,
-            fillOpacity: 0.35,
-          })}
-          onEachFeature={(feature, layer) => {
-            const csvId = feature.properties?.CSV_ID as string
-            const countyRecord = allData.find(d => d.jurisdictionId === csvId)
-            const name = countyRecord?.jurisdiction || feature.properties?.name as string || 'County'
-            layer.on({
-              click: () => {
-                console.log('County clicked:', csvId, name)
-                onFeatureClick(csvId, name)
-              },
-            })
-            layer.bindTooltip(name, {
-              sticky: true,
-            })
-          }}
+      {/* Below the overlay pane (z-index 400), so counties stay on top of their state */}
+      <Pane name="states" style={{ zIndex: 350 }}>
+        <StateLayer
+          featuresById={stateFeaturesById}
+          allData={allData}
+          onFeatureClick={onFeatureClick}
+          highlightId={highlightId}
+          theme={theme}
+        />
+      </Pane>
+
+      {countyGeometry && gapIds && <GapLayer featuresById={countyFeaturesById} gapIds={gapIds} theme={theme} />}
+
+      {countyGeometry && (
+        <CountyLayer
+          featuresById={countyFeaturesById}
+          joinIds={countyJoinIds}
+          allData={allData}
+          onFeatureClick={onFeatureClick}
+          highlightId={highlightId}
+          colors={theme.colors}
         />
       )}
 
-      {citiesData.map((cityFeature) => {
-        if (!cityFeature.geometry || cityFeature.geometry.type !== 'Point') return null
-        const coords = cityFeature.geometry.coordinates as [number, number]
-        const csvId = cityFeature.properties?.CSV_ID as string
-        const name = cityFeature.properties?.name as string
-        
-        return (
-          <CircleMarker
-            key={csvId}
-            center={[coords[1], coords[0]]}  // [lat, lng]
-            radius={6}
-            fillColor={MAP_COLORS.city.fill}
-            color={MAP_COLORS.city.stroke}
-            weight={2}
-            opacity={1}
-            fillOpacity={0.8}
-            eventHandlers={{
-              click: () => {
-                console.log('City clicked:', csvId, name)
-                onFeatureClick(csvId, name)
-              },
-            }}
-          >
-            <Tooltip sticky>{name}</Tooltip>
-          </CircleMarker>
-        )
-      }).filter(Boolean)}
+      <CityClusterLayer
+        cityFeatures={citiesData}
+        onFeatureClick={onFeatureClick}
+        highlightId={highlightId}
+        theme={theme}
+      />
+
+      {otherPoints.map((layer) => (
+        <PointLayer
+          key={layer.kind}
+          kind={layer.kind}
+          features={layer.features}
+          onFeatureClick={onFeatureClick}
+          highlightId={highlightId}
+          colors={theme.colors}
+        />
+      ))}
     </MapContainer>
   )
 }
@@ -0,0 +1,58 @@
+import { useMemo } from 'react'
+import { Button } from '@trussworks/react-uswds'
+import { getKindConfig } from './jurisdictionKinds'
+import { MAP_LIST_ID, describeMapFeatures, groupByState, type MapListItem } from './mapFeatureList'
+
+interface MapFeatureListProps {
+  /** What USMap draws (see mapFeatureList.ts) */
+  items: MapListItem[]
+  /** Same as clicking the feature on the map: opens its details */
+  onSelect: (geoid: string, name: string) => void
+  onShowOnMap: (geoid: string) => void
+}
+
+/**
+ * The map as a list grouped by state, for keyboard and screen-reader users,
+ * plus a live region announcing what the map shows whenever it changes.
+ */
+export function MapFeatureList({ items, onSelect, onShowOnMap }: MapFeatureListProps) {
+  const groups = useMemo(() => groupByState(items), [items])
+  const summary = describeMapFeatures(items)
+
+  return (
+    <>
+      <p className="usa-sr-only" role="status" aria-live="polite">
+        {summary}
+      </p>
+      <details className="map-feature-list" id={MAP_LIST_ID}>
+        <summary>Map as a list: {summary.charAt(0).toLowerCase() + summary.slice(1)}</summary>
+        {groups.map((group) => (
+          <div key={group.state} className="map-feature-group">
+            <h3>
+              {group.state} ({group.items.length})
+            </h3>
+            <ul>
+              {group.items.map((item) => (
+                <li key={item.id}>
+                  <Button type="button" unstyled onClick={() => onSelect(item.id, item.name)}>
+                    {item.name}
+                  </Button>
+                  <span className="map-feature-meta"> · {getKindConfig(item.kind).singular}</span>
+                  <Button
+                    type="button"
+                    unstyled
+                    className="map-feature-show"
+                    onClick={() => onShowOnMap(item.id)}
+                    aria-label={`Show ${item.name} on the map`}
+                  >
+                    Show on map
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </details>
+    </>
+  )
+}
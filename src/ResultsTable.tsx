@@ -0,0 +1,165 @@
+import { useMemo, useState } from 'react'
+import { Button, Table } from '@trussworks/react-uswds'
+import type { DashboardRecord } from './dataLoader'
+import { getStateForId } from './jurisdictionKinds'
+
+type SortKey = 'jurisdiction' | 'state' | 'governmentType' | 'population'
+type SortDirection = 'ascending' | 'descending'
+
+const PAGE_SIZE = 25
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'jurisdiction', label: 'Jurisdiction' },
+  { key: 'state', label: 'State' },
+  { key: 'governmentType', label: 'Government Type' },
+  { key: 'population', label: 'Population' },
+]
+
+interface ResultsTableProps {
+  rows: DashboardRecord[]
+  selectedIds: Set<string>
+  onShowOnMap: (record: DashboardRecord) => void
+  onAddToSelection: (record: DashboardRecord) => void
+  /** Called with the hovered or focused row's ID, and null when it is left */
+  onHighlight: (geoid: string | null) => void
+}
+
+function stateName(record: DashboardRecord): string {
+  return getStateForId(record.jurisdictionId, record.geoidScheme)?.name ?? ''
+}
+
+function compareRecords(a: DashboardRecord, b: DashboardRecord, key: SortKey): number {
+  switch (key) {
+    case 'jurisdiction':
+      return a.jurisdiction.localeCompare(b.jurisdiction)
+    case 'state':
+      return stateName(a).localeCompare(stateName(b))
+    case 'governmentType':
+      return a.displayGovernmentType.localeCompare(b.displayGovernmentType)
+    case 'population':
+      return (a.population ?? 0) - (b.population ?? 0)
+  }
+}
+
+/**
+ * All filtered jurisdictions as a sortable, paginated table, for browsing
+ * without the map. Rows highlight their county or city on hover and focus.
+ */
+export function ResultsTable({ rows, selectedIds, onShowOnMap, onAddToSelection, onHighlight }: ResultsTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('jurisdiction')
+  const [direction, setDirection] = useState<SortDirection>('ascending')
+  const [page, setPage] = useState(0)
+
+  const sortedRows = useMemo(() => {
+    const sign = direction === 'ascending' ? 1 : -1
+    return [...rows].sort((a, b) => {
+      // Records without a Census estimate go last in either direction
+      if (sortKey === 'population' && (a.population === undefined) !== (b.population === undefined)) {
+        return a.population === undefined ? 1 : -1
+      }
+      return sign * compareRecords(a, b, sortKey) || a.jurisdiction.localeCompare(b.jurisdiction)
+    })
+  }, [rows, sortKey, direction])
+
+  const pageCount = Math.max(1, Math.ceil(sortedRows.length / PAGE_SIZE))
+  // Filtering can shrink the results below the current page
+  const currentPage = Math.min(page, pageCount - 1)
+  const pageRows = sortedRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  const sortBy = (key: SortKey) => {
+    if (key === sortKey) {
+      setDirection((current) => (current === 'ascending' ? 'descending' : 'ascending'))
+    } else {
+      setSortKey(key)
+      setDirection('ascending')
+    }
+    setPage(0)
+  }
+
+  if (rows.length === 0) {
+    return (
+      <section className="results-section" aria-labelledby="results-heading">
+        <h2 id="results-heading">Results</h2>
+        <p>No jurisdictions match the current filters.</p>
+      </section>
+    )
+  }
+
+  return (
+    <section className="results-section" aria-labelledby="results-heading">
+      <h2 id="results-heading">Results ({rows.length})</h2>
+      <div className="table-wrapper">
+        <Table bordered fullWidth>
+          <thead>
+            <tr>
+              {COLUMNS.map((column) => (
+                <th
+                  key={column.key}
+                  scope="col"
+                  aria-sort={column.key === sortKey ? direction : undefined}
+                >
+                  <button type="button" className="sort-button" onClick={() => sortBy(column.key)}>
+                    {column.label}
+                    <span aria-hidden="true">
+                      {column.key === sortKey ? (direction === 'ascending' ? ' ▲' : ' ▼') : ' ↕'}
+                    </span>
+                  </button>
+                </th>
+              ))}
+              <th scope="col">
+                <span className="usa-sr-only">Actions</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody onMouseLeave={() => onHighlight(null)}>
+            {pageRows.map((row) => (
+              <tr
+                key={`${row.jurisdictionId}-${row.url}`}
+                onMouseEnter={() => onHighlight(row.jurisdictionId)}
+                onFocus={() => onHighlight(row.jurisdictionId)}
+                onBlur={() => onHighlight(null)}
+              >
+                <td>{row.jurisdiction}</td>
+                <td>{stateName(row)}</td>
+                <td>{row.displayGovernmentType}</td>
+                <td>{row.population !== undefined ? row.population.toLocaleString('en-US') : row.populationSize}</td>
+                <td className="results-actions">
+                  <Button
+                    type="button"
+                    unstyled
+                    onClick={() => onShowOnMap(row)}
+                    aria-label={`Show ${row.jurisdiction} on map`}
+                  >
+                    Show on map
+                  </Button>
+                  <Button
+                    type="button"
+                    unstyled
+                    onClick={() => onAddToSelection(row)}
+                    disabled={selectedIds.has(row.jurisdictionId)}
+                    aria-label={`Add ${row.jurisdiction} to selection`}
+                  >
+                    {selectedIds.has(row.jurisdictionId) ? 'Selected' : 'Add to selection'}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </Table>
+      </div>
+      {pageCount > 1 && (
+        <nav className="results-pagination" aria-label="Results pages">
+          <Button type="button" outline onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0}>
+            Previous
+          </Button>
+          <span aria-live="polite">
+            Page {currentPage + 1} of {pageCount}
+          </span>
+          <Button type="button" outline onClick={() => setPage(currentPage + 1)} disabled={currentPage === pageCount - 1}>
+            Next
+          </Button>
+        </nav>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,26 @@
+import { Alert } from '@trussworks/react-uswds'
+import { defaultSourceHref, type DataSource } from './dataSources'
+
+/**
+ * Shown whenever the map isn't showing the bundled snapshot (also when
+ * embedded), so a shared link can't pass another portal list off as this
+ * site's own.
+ */
+export function SourceBanner({ source }: { source: DataSource }) {
+  const fromLink = new URLSearchParams(window.location.search).has('source')
+
+  return (
+    <Alert type="warning" headingLevel="h2" heading="This map is showing data from another source" className="source-banner">
+      <p>
+        The portals below were loaded from{' '}
+        {source.kind === 'remote' ? <a href={source.label}>{source.label}</a> : <strong>{source.label}</strong>}, not
+        from the snapshot published with this site.
+      </p>
+      {fromLink && (
+        <p>
+          <a href={defaultSourceHref()}>Open this page with its own data</a>
+        </p>
+      )}
+    </Alert>
+  )
+}
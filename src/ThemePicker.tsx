@@ -0,0 +1,46 @@
+import { Label } from '@trussworks/react-uswds'
+import { PALETTES, THEME_MODES, isPaletteId, isThemeMode, type PaletteId, type ThemeMode } from './themes'
+
+interface ThemePickerProps {
+  mode: ThemeMode
+  palette: PaletteId
+  onChange: (mode: ThemeMode, palette: PaletteId) => void
+}
+
+/** Map colors (palette) and light/dark appearance, next to the legend they change */
+export function ThemePicker({ mode, palette, onChange }: ThemePickerProps) {
+  return (
+    <div className="theme-controls" role="group" aria-label="Display">
+      <div>
+        <Label htmlFor="theme-palette">Map colors</Label>
+        <select
+          id="theme-palette"
+          className="usa-select"
+          value={palette}
+          onChange={(event) => isPaletteId(event.target.value) && onChange(mode, event.target.value)}
+        >
+          {PALETTES.map((option) => (
+            <option key={option.id} value={option.id} title={option.description}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <Label htmlFor="theme-mode">Appearance</Label>
+        <select
+          id="theme-mode"
+          className="usa-select"
+          value={mode}
+          onChange={(event) => isThemeMode(event.target.value) && onChange(event.target.value, palette)}
+        >
+          {THEME_MODES.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { useSyncExternalStore } from 'react'
+import type { ColorScheme, ThemeMode } from './themes'
+
+// Kept out of themes.ts so the embed host helper can use its guards without bundling React
+const DARK_QUERY = '(prefers-color-scheme: dark)'
+
+function subscribeToScheme(onChange: () => void): () => void {
+  const query = window.matchMedia(DARK_QUERY)
+  query.addEventListener('change', onChange)
+  return () => query.removeEventListener('change', onChange)
+}
+
+/** The color scheme for a mode; 'auto' follows the system setting as it changes */
+export function useColorScheme(mode: ThemeMode): ColorScheme {
+  const prefersDark = useSyncExternalStore(subscribeToScheme, () => window.matchMedia(DARK_QUERY).matches)
+  if (mode !== 'auto') return mode
+  return prefersDark ? 'dark' : 'light'
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { COMPARE_MAX, buildComparison } from './compare'
+import { loadedRecord } from './testFixtures'
+
+const losAngelesCounty = loadedRecord({ Jurisdiction: 'Los Angeles County, CA', 'Jurisdiction ID': '06037', URL: 'https://data.lacounty.gov', 'Government Type': 'County' })
+const cookCounty = loadedRecord({ Jurisdiction: 'Cook County, IL', 'Jurisdiction ID': '17031', URL: 'https://datacatalog.cookcountyil.gov', 'Government Type': 'County' })
+const cookCountyHub = loadedRecord({ Jurisdiction: 'Cook County, IL', 'Jurisdiction ID': '17031', URL: 'https://hub-cookcountyil.opendata.arcgis.com', 'Government Type': 'County' })
+
+function row(comparison: ReturnType<typeof buildComparison>, key: string) {
+  return comparison.rows.find((candidate) => candidate.key === key)!
+}
+
+describe('buildComparison', () => {
+  it('builds one column per jurisdiction in selection order, skipping unknown IDs', () => {
+    const comparison = buildComparison(['17031', '99999', '06037'], [losAngelesCounty, cookCounty])
+
+    expect(comparison.columns.map((column) => column.jurisdiction)).toEqual(['Cook County, IL', 'Los Angeles County, CA'])
+    expect(comparison.omitted).toEqual([])
+  })
+
+  it('flags rows whose values differ', () => {
+    const comparison = buildComparison(['06037', '17031'], [losAngelesCounty, cookCounty])
+
+    expect(row(comparison, 'state')).toMatchObject({ values: ['California', 'Illinois'], differs: true })
+    expect(row(comparison, 'governmentType')).toMatchObject({ values: ['County', 'County'], differs: false })
+    expect(row(comparison, 'population').values[0]).toMatch(/\(2024\)$/)
+  })
+
+  it('joins the portal-level values of every dashboard for a jurisdiction', () => {
+    const comparison = buildComparison(['17031', '06037'], [cookCounty, cookCountyHub, losAngelesCounty])
+
+    expect(comparison.columns[0].records).toHaveLength(2)
+    expect(row(comparison, 'portals').values[0]).toBe(`${cookCounty.url}\n${cookCountyHub.url}`)
+    expect(row(comparison, 'notes').values).toEqual(['—', '—'])
+  })
+
+  it(`compares at most ${COMPARE_MAX} jurisdictions`, () => {
+    const records = Array.from({ length: COMPARE_MAX + 2 }, (_, index) =>
+      loadedRecord({ Jurisdiction: `County ${index}`, 'Jurisdiction ID': `060${String(index * 2 + 1).padStart(2, '0')}`, 'Government Type': 'County' })
+    )
+    const comparison = buildComparison(records.map((r) => r.jurisdictionId), records)
+
+    expect(comparison.columns).toHaveLength(COMPARE_MAX)
+    expect(comparison.omitted).toEqual(['06013', '06015'])
+  })
+})
@@ -0,0 +1,115 @@
+import type { DashboardRecord, PortalHealthStatus } from './dataLoader'
+import { formatCatalogSummary, formatGrowth, formatPopulation } from './format'
+import { getStateForId } from './jurisdictionKinds'
+import { getPlatformLabel } from './platforms'
+
+/**
+ * Side-by-side comparison of selected jurisdictions: one column per
+ * jurisdiction (all of its dashboards), one row per attribute, with rows
+ * whose values differ flagged.
+ */
+export const COMPARE_MIN = 2
+export const COMPARE_MAX = 6
+
+export interface CompareColumn {
+  jurisdictionId: string
+  jurisdiction: string
+  /** Every dashboard for the jurisdiction */
+  records: DashboardRecord[]
+}
+
+export interface CompareRow {
+  key: string
+  label: string
+  /** One value per column; several dashboards' values are joined */
+  values: string[]
+  differs: boolean
+}
+
+export interface Comparison {
+  columns: CompareColumn[]
+  rows: CompareRow[]
+  /** Selected IDs left out because only COMPARE_MAX fit */
+  omitted: string[]
+}
+
+const MISSING = '—'
+
+const HEALTH_LABELS: Record<PortalHealthStatus, string> = {
+  reachable: 'Reachable',
+  redirected: 'Redirected',
+  broken: 'Broken',
+}
+
+/** Distinct non-empty values, in order, or MISSING */
+function joinValues(values: Array<string | undefined>, separator = '; '): string {
+  const distinct = Array.from(new Set(values.filter((value): value is string => Boolean(value))))
+  return distinct.length > 0 ? distinct.join(separator) : MISSING
+}
+
+// Jurisdiction-level attributes come from the first dashboard; portal-level ones are joined.
+// Names and IDs head the columns, so they are not compared.
+const ATTRIBUTES: Array<{ key: string; label: string; value: (column: CompareColumn) => string }> = [
+  {
+    key: 'state',
+    label: 'State',
+    value: ({ records: [first] }) => getStateForId(first.jurisdictionId, first.geoidScheme)?.name ?? MISSING,
+  },
+  { key: 'governmentType', label: 'Government type', value: ({ records: [first] }) => first.displayGovernmentType },
+  { key: 'unified', label: 'Unified city–county', value: ({ records: [first] }) => (first.isUnified ? 'Yes' : 'No') },
+  {
+    key: 'population',
+    label: 'Population (Census estimate)',
+    value: ({ records: [first] }) =>
+      first.population !== undefined ? `${formatPopulation(first.population)} (${first.populationYear})` : MISSING,
+  },
+  {
+    key: 'growth',
+    label: 'Population growth',
+    value: ({ records: [first] }) =>
+      first.populationGrowth !== undefined
+        ? `${formatGrowth(first.populationGrowth)} since ${first.populationBaseYear}`
+        : MISSING,
+  },
+  { key: 'populationSize', label: 'Population size (sheet)', value: ({ records }) => joinValues(records.map((r) => r.populationSize)) },
+  { key: 'portals', label: 'Portals', value: ({ records }) => joinValues(records.map((r) => r.url), '\n') },
+  { key: 'platform', label: 'Platform', value: ({ records }) => joinValues(records.map((r) => getPlatformLabel(r.platform))) },
+  {
+    key: 'linkStatus',
+    label: 'Link status',
+    value: ({ records }) => joinValues(records.map((r) => (r.health ? HEALTH_LABELS[r.health.status] : 'Not checked'))),
+  },
+  {
+    key: 'catalog',
+    label: 'Catalog',
+    value: ({ records }) => joinValues(records.map((r) => (r.catalog?.apiAvailable ? formatCatalogSummary(r.catalog) : undefined))),
+  },
+  {
+    key: 'topCategories',
+    label: 'Top categories',
+    value: ({ records }) =>
+      joinValues(records.map((r) => r.catalog?.topCategories?.map((category) => category.name).join(', '))),
+  },
+  { key: 'notes', label: 'Notes', value: ({ records }) => joinValues(records.map((r) => r.notes)) },
+]
+
+/**
+ * Compare the selected jurisdictions in selection order. IDs without a
+ * record are skipped; only the first COMPARE_MAX are compared.
+ */
+export function buildComparison(selectedIds: string[], records: DashboardRecord[]): Comparison {
+  const found = selectedIds
+    .map((jurisdictionId): CompareColumn => {
+      const matches = records.filter((record) => record.jurisdictionId === jurisdictionId)
+      return { jurisdictionId, jurisdiction: matches[0]?.jurisdiction ?? '', records: matches }
+    })
+    .filter((column) => column.records.length > 0)
+
+  const columns = found.slice(0, COMPARE_MAX)
+  const rows = ATTRIBUTES.map(({ key, label, value }) => {
+    const values = columns.map(value)
+    return { key, label, values, differs: new Set(values).size > 1 }
+  })
+
+  return { columns, rows, omitted: found.slice(COMPARE_MAX).map((column) => column.jurisdictionId) }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { findCoverageGaps, gapsToCsv, getCoveredIds, hasGapPopulation } from './coverageGaps'
+import { record } from './testFixtures'
+
+const losAngelesCounty = record({ Jurisdiction: 'Los Angeles County, CA', 'Jurisdiction ID': '06037', 'Government Type': 'County' })
+const denver = record({ Jurisdiction: 'Denver, CO', 'Jurisdiction ID': '0820000', 'Government Type': 'City, County' })
+const houston = record({ Jurisdiction: 'Houston, TX', 'Jurisdiction ID': '4835000', 'Government Type': 'City' })
+
+// Consolidated city-counties and independent cities, as entered in the sheet
+const CONSOLIDATED: Array<[string, string, string, string[]]> = [
+  ['San Francisco, CA', '0667000', 'City, County', ['06075']],
+  ['Denver, CO', '0820000', 'City, County', ['08031']],
+  ['Philadelphia, PA', '4260000', 'City', ['42101']],
+  ['Nashville, TN', '4752006', 'City, County', ['47037']],
+  ['Jacksonville, FL', '1235000', 'City', ['12031']],
+  ['Baltimore, MD', '2404000', 'City', ['24510']],
+  ['New York, NY', '3651000', 'City', ['36005', '36047', '36061', '36081', '36085']],
+]
+
+describe('getCoveredIds', () => {
+  it('covers counties directly and through consolidated city-counties', () => {
+    expect(getCoveredIds([losAngelesCounty, denver, houston], 'county')).toEqual(new Set(['06037', '08031']))
+  })
+
+  it.each(CONSOLIDATED)('covers the county of %s (%s)', (jurisdiction, id, governmentType, counties) => {
+    const city = record({ Jurisdiction: jurisdiction, 'Jurisdiction ID': id, 'Government Type': governmentType })
+    expect(getCoveredIds([city], 'county')).toEqual(new Set(counties))
+  })
+
+  it('still covers the county of a unified city-county entered by county GEOID + 00', () => {
+    const unified = record({ 'Jurisdiction ID': '0803100', 'Government Type': 'City, County' })
+    expect(getCoveredIds([unified], 'county')).toEqual(new Set(['08031']))
+  })
+
+  it('covers places by place GEOID', () => {
+    expect(getCoveredIds([losAngelesCounty, denver, houston], 'place')).toEqual(new Set(['0820000', '4835000']))
+  })
+})
+
+describe('findCoverageGaps', () => {
+  it('ranks uncovered counties above the threshold by population', () => {
+    const gaps = findCoverageGaps([losAngelesCounty], 'county', 1000000, new Map([['17031', 'Cook']]))
+
+    expect(gaps.every((gap) => gap.population >= 1000000)).toBe(true)
+    expect(gaps.map((gap) => gap.geoid)).not.toContain('06037')
+    expect(gaps[0]).toMatchObject({ rank: 1, geoid: '17031', name: 'Cook', state: 'IL', year: 2024 })
+    expect(gaps[1]).toMatchObject({ rank: 2, geoid: '48201', name: '48201', state: 'TX' })
+  })
+
+  it('leaves out counties governed by a consolidated city in the data', () => {
+    const cities = CONSOLIDATED.map(([jurisdiction, id, governmentType]) =>
+      record({ Jurisdiction: jurisdiction, 'Jurisdiction ID': id, 'Government Type': governmentType }))
+    const gaps = findCoverageGaps(cities, 'county', 500000).map((gap) => gap.geoid)
+
+    CONSOLIDATED.flatMap(([, , , counties]) => counties).forEach((countyId) => expect(gaps).not.toContain(countyId))
+  })
+
+  it('does not count a city as covering its county', () => {
+    const gaps = findCoverageGaps([houston], 'county', 1000000)
+    expect(gaps.map((gap) => gap.geoid)).toContain('48201')
+  })
+
+  it('finds no place gaps until place estimates are bundled', () => {
+    expect(hasGapPopulation('county')).toBe(true)
+    expect(hasGapPopulation('place')).toBe(false)
+    expect(findCoverageGaps([], 'place', 0)).toEqual([])
+  })
+})
+
+describe('gapsToCsv', () => {
+  it('writes the ranked table after comment lines, with a header even when empty', () => {
+    const csv = gapsToCsv(findCoverageGaps([], 'county', 5000000), 'county', 5000000)
+    const lines = csv.trim().split(/\r?\n/)
+
+    expect(lines.slice(0, 2)).toEqual(['# kind: county', '# minimumPopulation: 5000000'])
+    expect(lines[3]).toBe('Rank,GEOID,Name,State,Population,Estimate Year')
+    expect(lines.slice(4)).toEqual(['1,06037,06037,CA,9757179,2024', '2,17031,17031,IL,5182617,2024', '3,48201,48201,TX,5009302,2024'])
+    expect(gapsToCsv([], 'place', 100000).trim().split(/\r?\n/).pop()).toBe('Rank,GEOID,Name,State,Population,Estimate Year')
+  })
+})
@@ -0,0 +1,112 @@
+import Papa from 'papaparse'
+import consolidatedCities from './consolidatedCities.json'
+import { getPopulationSnapshot, type DashboardRecord } from './dataLoader'
+import { getStateForGeoid } from './usStates'
+
+/**
+ * Coverage gaps: counties (or places, once place estimates are bundled)
+ * above a population threshold without any record in the loaded data,
+ * ranked by population.
+ */
+export type GapKind = 'county' | 'place'
+
+export interface CoverageGap {
+  rank: number
+  geoid: string
+  name: string
+  /** State abbreviation */
+  state: string
+  population: number
+  year: number
+}
+
+export const GAP_THRESHOLDS = [100000, 250000, 500000, 1000000]
+export const DEFAULT_GAP_THRESHOLD = 500000
+
+export const GAP_KIND_LABELS: Record<GapKind, string> = {
+  county: 'Counties',
+  place: 'Places',
+}
+
+/** Whether the population snapshot has estimates for the kind */
+export function hasGapPopulation(kind: GapKind): boolean {
+  const snapshot = getPopulationSnapshot()
+  return Object.keys(kind === 'county' ? snapshot.counties : snapshot.places).length > 0
+}
+
+/**
+ * Consolidated city-counties and independent cities, configured in
+ * consolidatedCities.json: place GEOID -> the county GEOIDs it governs.
+ * Their place GEOIDs have nothing to do with the county's, e.g. Denver is
+ * 0820000 and Denver County 08031.
+ */
+const COUNTIES_BY_PLACE = new Map(consolidatedCities.map((city) => [city.place, city.counties]))
+
+/**
+ * GEOIDs the records already cover. Consolidated city-counties cover their
+ * counties through the crosswalk above; other unified city-counties cover
+ * their county through the county GEOID + '00' form.
+ */
+export function getCoveredIds(records: DashboardRecord[], kind: GapKind): Set<string> {
+  const covered = new Set<string>()
+  records.forEach((record) => {
+    if (record.kind === kind) covered.add(record.jurisdictionId)
+    if (kind !== 'county' || record.kind !== 'place') return
+    const counties = COUNTIES_BY_PLACE.get(record.jurisdictionId)
+    if (counties) {
+      counties.forEach((countyId) => covered.add(countyId))
+    } else if (record.isUnified && record.jurisdictionId.endsWith('00')) {
+      covered.add(record.jurisdictionId.slice(0, 5))
+    }
+  })
+  return covered
+}
+
+/**
+ * Jurisdictions of the kind with at least `threshold` people (latest
+ * estimate) and no record, largest first. Counties are named from
+ * `names` (e.g. their geometry), places from the population snapshot.
+ */
+export function findCoverageGaps(
+  records: DashboardRecord[],
+  kind: GapKind,
+  threshold: number,
+  names: Map<string, string> = new Map()
+): CoverageGap[] {
+  const snapshot = getPopulationSnapshot()
+  const estimates = kind === 'county' ? snapshot.counties : snapshot.places
+  const year = snapshot.years[snapshot.years.length - 1]
+  const covered = getCoveredIds(records, kind)
+
+  return Object.entries(estimates)
+    .map(([geoid, values]) => ({ geoid, population: values[values.length - 1] }))
+    .filter(({ geoid, population }) => population >= threshold && !covered.has(geoid))
+    .sort((a, b) => b.population - a.population || a.geoid.localeCompare(b.geoid))
+    .map(({ geoid, population }, index) => ({
+      rank: index + 1,
+      geoid,
+      name: names.get(geoid) ?? snapshot.placeNames?.[geoid] ?? geoid,
+      state: getStateForGeoid(geoid)?.abbr ?? '',
+      population,
+      year,
+    }))
+}
+
+/** The ranked gap table as CSV, with the kind and threshold as leading `#` comment lines */
+export function gapsToCsv(gaps: CoverageGap[], kind: GapKind, threshold: number): string {
+  const comments = [
+    `# kind: ${kind}`,
+    `# minimumPopulation: ${threshold}`,
+    `# exportedAt: ${new Date().toISOString()}`,
+  ]
+  // Fields and rows form so the header is written even without gaps
+  const body = Papa.unparse({
+    fields: ['Rank', 'GEOID', 'Name', 'State', 'Population', 'Estimate Year'],
+    data: gaps.map((gap) => [gap.rank, gap.geoid, gap.name, gap.state, gap.population, gap.year]),
+  })
+  return `${comments.join('\n')}\n${body}\n`
+}
+
+export function gapsFileName(kind: GapKind, date = new Date()): string {
+  return `open-data-portal-gaps-${kind}-${date.toISOString().slice(0, 10)}.csv`
+}
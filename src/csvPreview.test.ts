@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { checkPreviewRows, createPreviewSource, previewCsv } from './csvPreview'
+import type { CsvRowRaw } from './dataLoader'
+
+function row(overrides: Partial<CsvRowRaw>): CsvRowRaw {
+  return {
+    Jurisdiction: 'Dallas, TX',
+    'Jurisdiction ID': '4819000',
+    URL: 'https://www.dallasopendata.com/',
+    'Government Type': 'City',
+    Latitude: '32.7767',
+    Longitude: '-96.797',
+    ...overrides,
+  }
+}
+
+describe('checkPreviewRows', () => {
+  it('finds nothing wrong with a clean row', () => {
+    expect(checkPreviewRows([row({})])).toEqual([])
+  })
+
+  it('reports skipped rows with the validator check codes', () => {
+    const issues = checkPreviewRows([row({ URL: '' }), row({ 'Jurisdiction ID': '' }), row({ URL: 'ftp://example.gov' })])
+    expect(issues.map((issue) => [issue.line, issue.code, issue.skipped])).toEqual([
+      [2, 'missing-url', true],
+      [3, 'missing-id', true],
+      [4, 'invalid-url', true],
+    ])
+    expect(issues[0].message).toBe('Missing URL; row skipped')
+  })
+
+  it('reports bad IDs', () => {
+    const issues = checkPreviewRows([
+      row({ 'Jurisdiction ID': '48-113' }),
+      row({ 'Jurisdiction ID': '4819000', 'Government Type': 'County' }),
+      row({ 'Jurisdiction ID': '9919000' }),
+    ])
+    expect(issues.map((issue) => issue.code)).toEqual(['invalid-fips', 'id-length-mismatch', 'invalid-fips'])
+    expect(issues.every((issue) => issue.severity === 'error' && !issue.skipped)).toBe(true)
+  })
+
+  it('warns about cities without coordinates and flags invalid ones', () => {
+    const issues = checkPreviewRows([
+      row({ Latitude: '', Longitude: '' }),
+      row({ Latitude: '32.7767', Longitude: 'west' }),
+      row({ 'Jurisdiction ID': '48113', 'Government Type': 'County', Latitude: '', Longitude: '' }),
+    ])
+    expect(issues.map((issue) => [issue.line, issue.severity, issue.code])).toEqual([
+      [2, 'warning', 'missing-coordinates'],
+      [3, 'error', 'invalid-coordinates'],
+    ])
+  })
+})
+
+describe('previewCsv', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('normalizes rows and numbers lines after leading comments', () => {
+    const text = [
+      '# exportedAt: 2026-10-19T00:00:00.000Z',
+      '# scope: filtered',
+      'Jurisdiction,Jurisdiction ID,URL,Population Size,Government Type,Notes,Latitude,Longitude',
+      'Dallas County,48113,https://www.dallascounty.org/,,County,,,',
+      'Dallas,4819000,,,City,,,',
+    ].join('\n')
+
+    const preview = previewCsv('edited.csv', text)
+    expect(preview.report.rowsLoaded).toBe(2)
+    expect(preview.report.records.map((record) => record.jurisdictionId)).toEqual(['48113'])
+    expect(preview.issues).toMatchObject([{ line: 5, code: 'missing-url', skipped: true }])
+  })
+
+  it('numbers lines past blank, comment and multi-line rows', () => {
+    const text = [
+      'Jurisdiction,Jurisdiction ID,URL,Government Type,Notes',
+      'Dallas County,48113,https://www.dallascounty.org/,County,"Updated',
+      'quarterly"',
+      '',
+      '# Cities',
+      'Dallas,4819000,,City,',
+    ].join('\n')
+
+    expect(previewCsv('edited.csv', text).issues).toMatchObject([{ line: 6, code: 'missing-url' }])
+  })
+
+  it('serves the preview as a data source', async () => {
+    const preview = previewCsv('edited.csv', 'Jurisdiction ID,URL,Government Type\n48113,https://www.dallascounty.org/,County')
+    const source = createPreviewSource(preview)
+    expect(source).toMatchObject({ kind: 'file', label: 'edited.csv' })
+    expect(await source.load()).toBe(preview.report.records)
+  })
+})
@@ -0,0 +1,117 @@
+import { buildLoadReport, getSkipReason, normalizeId, type CsvRowRaw, type LoadReport } from './dataLoader'
+import { parseCsvWithLines, type DataSource } from './dataSources'
+import { getJurisdictionKind, getKindConfig, getSchemeConfig } from './jurisdictionKinds'
+import { US_STATES } from './usStates'
+
+/**
+ * Row-level checks for the "Preview your own CSV" mode, a browser-side
+ * subset of scripts/validate-portals.mjs using the same check codes.
+ */
+export type PreviewSeverity = 'error' | 'warning'
+
+export interface PreviewIssue {
+  /** Line the row starts on in the file, counting blank and # comment lines */
+  line: number
+  jurisdiction: string
+  jurisdictionId: string
+  severity: PreviewSeverity
+  code: string
+  message: string
+  /** The row is left out of the preview map */
+  skipped: boolean
+}
+
+export interface CsvPreview {
+  fileName: string
+  report: LoadReport
+  issues: PreviewIssue[]
+}
+
+// Check codes for rows normalizeRow skips, by getSkipReason() message
+const SKIP_CODES: Record<string, string> = {
+  'Missing jurisdiction ID': 'missing-id',
+  'Missing URL': 'missing-url',
+  'URL is not an http(s) link': 'invalid-url',
+}
+
+function hasValue(value: string | number | undefined): boolean {
+  return value !== undefined && value !== null && String(value).trim() !== ''
+}
+
+/**
+ * Check parsed rows for skipped rows, bad IDs and missing or invalid coordinates.
+ * `lines` holds each row's line number, from parseCsvWithLines.
+ */
+export function checkPreviewRows(rows: CsvRowRaw[], lines = rows.map((_, index) => index + 2)): PreviewIssue[] {
+  const issues: PreviewIssue[] = []
+
+  rows.forEach((row, index) => {
+    const jurisdiction = row.Jurisdiction?.trim() || ''
+    const rawId = normalizeId(row['Jurisdiction ID'])
+    const governmentType = row['Government Type']?.trim() || ''
+    const skipReason = getSkipReason(row)
+
+    const report = (severity: PreviewSeverity, code: string, message: string, skipped = false) => {
+      issues.push({ line: lines[index], jurisdiction, jurisdictionId: rawId, severity, code, message, skipped })
+    }
+
+    if (skipReason) {
+      report('error', SKIP_CODES[skipReason] ?? 'skipped', `${skipReason}; row skipped`, true)
+      return
+    }
+
+    // GEOID format and ID length for the row's kind (as in normalizeIdForType);
+    // other public agencies have no fixed ID format
+    const governmentTypes = governmentType.split(',').map((type) => type.trim())
+    const kind = getJurisdictionKind(governmentTypes, row['Jurisdiction Kind'])
+    const scheme = getSchemeConfig(getKindConfig(kind).geoidScheme)
+    if (scheme.digits !== null) {
+      const id = rawId.padStart(scheme.digits, '0')
+      if (!/^\d+$/.test(rawId)) {
+        report('error', 'invalid-fips', `Jurisdiction ID "${rawId}" is not numeric`)
+      } else if (id.length !== scheme.digits) {
+        report('error', 'id-length-mismatch',
+          `${scheme.label} IDs have ${scheme.digits} digits, got ${rawId.length} for "${governmentType}"`)
+      } else if (scheme.statePrefix && !US_STATES[id.slice(0, 2)]) {
+        report('error', 'invalid-fips', `State FIPS "${id.slice(0, 2)}" does not exist`)
+      }
+    }
+
+    // Coordinates
+    const hasLat = hasValue(row.Latitude)
+    const hasLon = hasValue(row.Longitude)
+    if (hasLat || hasLon) {
+      if (!hasLat || !hasLon || !Number.isFinite(Number(row.Latitude)) || !Number.isFinite(Number(row.Longitude))) {
+        report('error', 'invalid-coordinates', `Coordinates "${row.Latitude ?? ''}, ${row.Longitude ?? ''}" are not numeric`)
+      }
+    } else if (getKindConfig(kind).shape === 'point') {
+      report('warning', 'missing-coordinates',
+        `${governmentType || 'Row'} has no Latitude/Longitude and will not appear on the map`)
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Parse a CSV export of the sheet with Papa Parse and run it through the
+ * same normalization as the snapshot, with row-level issues.
+ */
+export function previewCsv(fileName: string, text: string): CsvPreview {
+  const { rows, lines } = parseCsvWithLines(text)
+  return {
+    fileName,
+    report: buildLoadReport(rows),
+    issues: checkPreviewRows(rows, lines),
+  }
+}
+
+/** The previewed rows as a data source, so the app renders them like any other */
+export function createPreviewSource(preview: CsvPreview): DataSource {
+  return {
+    kind: 'file',
+    label: preview.fileName,
+    load: async () => preview.report.records,
+    loadReport: async () => preview.report,
+  }
+}
@@ -0,0 +1,195 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getSkipReason, normalizeId, normalizeIdForType, normalizeRow, type CsvRowRaw, type PopulationSnapshot } from './dataLoader'
+import { loadedRecord, record, sheetRow } from './testFixtures'
+
+// The bundled snapshot has no place estimates yet (see the README), so add
+// Dallas's Vintage 2024 estimates to check the place join.
+vi.mock('./data/population.snapshot.json', async (importOriginal) => {
+  const { default: snapshot } = await importOriginal<{ default: PopulationSnapshot }>()
+  return {
+    default: {
+      ...snapshot,
+      places: { ...snapshot.places, '4819000': [1303212, 1288457, 1300239, 1302868, 1326087] },
+    },
+  }
+})
+
+const DALLAS: Partial<CsvRowRaw> = {
+  Jurisdiction: 'Dallas, TX',
+  'Jurisdiction ID': '4819000',
+  URL: 'https://www.dallasopendata.com/',
+  'Population Size': 'Over 1 Million',
+  Latitude: '32.7767',
+  Longitude: '-96.797',
+}
+
+describe('normalizeId', () => {
+  it('strips leading apostrophes added by Google Sheets', () => {
+    expect(normalizeId("'08031")).toBe('08031')
+    expect(normalizeId("''0820000")).toBe('0820000')
+  })
+
+  it('trims whitespace', () => {
+    expect(normalizeId('  48113 ')).toBe('48113')
+  })
+
+  it('stringifies numbers and treats null/undefined as empty', () => {
+    expect(normalizeId(8031)).toBe('8031')
+    expect(normalizeId(null)).toBe('')
+    expect(normalizeId(undefined)).toBe('')
+  })
+})
+
+describe('normalizeIdForType', () => {
+  it('pads county IDs to 5 digits', () => {
+    expect(normalizeIdForType('8031', 'County')).toBe('08031')
+    expect(normalizeIdForType('6037', ' county ')).toBe('06037')
+  })
+
+  it('pads city IDs to 7 digits', () => {
+    expect(normalizeIdForType('820000', 'City')).toBe('0820000')
+    expect(normalizeIdForType('644000', 'City')).toBe('0644000')
+  })
+
+  it('pads unified city-counties to 7 digits', () => {
+    expect(normalizeIdForType('820000', 'City, County')).toBe('0820000')
+  })
+
+  it('pads states, tribal areas and school districts to their scheme length', () => {
+    expect(normalizeIdForType('6', 'State')).toBe('06')
+    expect(normalizeIdForType('430', 'Tribal Government')).toBe('0430')
+    expect(normalizeIdForType('622710', 'School District')).toBe('0622710')
+  })
+
+  it('leaves other public agency IDs alone', () => {
+    expect(normalizeIdForType('1234567', 'Other Public Agency')).toBe('1234567')
+    expect(normalizeIdForType('MT-1', '')).toBe('MT-1')
+  })
+
+  it('uses an explicit kind over the government type', () => {
+    expect(normalizeIdForType('6', 'Other Public Agency', 'state')).toBe('06')
+  })
+
+  it('leaves IDs that are already full length alone', () => {
+    expect(normalizeIdForType('48113', 'County')).toBe('48113')
+    expect(normalizeIdForType('4819000', 'City')).toBe('4819000')
+  })
+
+  it('strips apostrophes before padding', () => {
+    expect(normalizeIdForType("'8031", 'County')).toBe('08031')
+  })
+})
+
+describe('normalizeRow', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('normalizes a city row', () => {
+    const normalized = record(DALLAS)
+    expect(normalized).toMatchObject({
+      jurisdiction: 'Dallas, TX',
+      jurisdictionId: '4819000',
+      governmentTypes: ['City'],
+      isUnified: false,
+      displayGovernmentType: 'City',
+      latitude: 32.7767,
+      longitude: -96.797,
+    })
+  })
+
+  it('pads a county ID that lost its leading zero', () => {
+    const normalized = record({ ...DALLAS, 'Jurisdiction ID': '8031', 'Government Type': 'County' })
+    expect(normalized.jurisdictionId).toBe('08031')
+  })
+
+  it('detects unified governments from the notes', () => {
+    const normalized = record({
+      ...DALLAS,
+      'Government Type': 'City',
+      Notes: 'Unified City-County Government',
+    })
+    expect(normalized.isUnified).toBe(true)
+    expect(normalized.displayGovernmentType).toBe('Unified City–County')
+  })
+
+  it('treats combined city and county types as unified', () => {
+    const normalized = record({ ...DALLAS, 'Government Type': 'City, County' })
+    expect(normalized.governmentTypes).toEqual(['City', 'County'])
+    expect(normalized.isUnified).toBe(true)
+    expect(normalized.displayGovernmentType).toBe('City + County')
+  })
+
+  it('falls back to Other Public Agency without a government type', () => {
+    const normalized = record({ ...DALLAS, 'Government Type': '' })
+    expect(normalized.displayGovernmentType).toBe('Other Public Agency')
+    expect(normalized.jurisdictionId).toBe('4819000')
+  })
+
+  it('records the jurisdiction kind and GEOID scheme', () => {
+    expect(record(DALLAS)).toMatchObject({ kind: 'place', geoidScheme: 'place' })
+    expect(record({ ...DALLAS, 'Government Type': '' })).toMatchObject({ kind: 'agency', geoidScheme: 'none' })
+    expect(record({ ...DALLAS, 'Jurisdiction ID': '48', 'Government Type': 'State' })).toMatchObject({
+      jurisdictionId: '48',
+      kind: 'state',
+      geoidScheme: 'state',
+    })
+  })
+
+  it('leaves missing or invalid coordinates undefined', () => {
+    const normalized = record({ ...DALLAS, Latitude: '', Longitude: 'n/a' })
+    expect(normalized.latitude).toBeUndefined()
+    expect(normalized.longitude).toBeUndefined()
+  })
+
+  it('records where the coordinates came from', () => {
+    expect(record(DALLAS).coordinateSource).toBe('sheet')
+    expect(record({ ...DALLAS, 'Coordinate Source': 'gazetteer' }).coordinateSource).toBe('gazetteer')
+    expect(record({ ...DALLAS, Latitude: '', Longitude: '' }).coordinateSource).toBeUndefined()
+  })
+
+  it('skips rows without a URL or jurisdiction ID', () => {
+    expect(normalizeRow(sheetRow({ ...DALLAS, URL: ' ' }))).toBeNull()
+    expect(normalizeRow(sheetRow({ ...DALLAS, 'Jurisdiction ID': "'" }))).toBeNull()
+  })
+
+  it('skips rows whose URL is not an http(s) link', () => {
+    expect(getSkipReason(sheetRow({ ...DALLAS, URL: 'javascript:alert(1)' }))).toBe('URL is not an http(s) link')
+    expect(normalizeRow(sheetRow({ ...DALLAS, URL: 'data.example.gov' }))).toBeNull()
+  })
+
+  it('detects the portal platform from the URL', () => {
+    expect(record(DALLAS).platform).toBe('socrata')
+    expect(record({ ...DALLAS, URL: 'https://data-akron.opendata.arcgis.com/' }).platform).toBe('arcgis-hub')
+  })
+})
+
+describe('population join', () => {
+  it('attaches Census estimates to a place record by its place GEOID', () => {
+    // The estimate decides the bucket over a stale sheet label
+    const dallas = loadedRecord({ ...DALLAS, 'Population Size': 'Population under 50,000' })
+    expect(dallas).toMatchObject({
+      population: 1326087,
+      populationYear: 2024,
+      populationBaseYear: 2020,
+      populationBucket: 'over-1m',
+    })
+    expect(dallas.populationGrowth).toBeCloseTo(0.0176, 3)
+  })
+
+  it('attaches county estimates by the padded county GEOID', () => {
+    const county = loadedRecord({ 'Jurisdiction ID': '8031', 'Government Type': 'County' })
+    expect(county.jurisdictionId).toBe('08031')
+    expect(county.population).toBeGreaterThan(0)
+  })
+
+  it('falls back to the sheet label for places without an estimate', () => {
+    const city = loadedRecord({ 'Jurisdiction ID': '4805000', 'Population Size': 'Population exceeding 1 million' })
+    expect(city.population).toBeUndefined()
+    expect(city.populationBucket).toBe('over-1m')
+  })
+})
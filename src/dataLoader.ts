@@ -1,5 +1,14 @@
-import snapshotData from './data/portals.snapshot.json'
 import snapshotMeta from './data/portals.snapshot.meta.json'
+import snapshotChanges from './data/portals.snapshot.changes.json'
+import populationData from './data/population.snapshot.json'
+import healthData from './data/portals.health.json'
+import catalogData from './data/catalog.snapshot.json'
+import { getPopulationBucket } from './populationBuckets'
+import { detectPlatform } from './platforms'
+import { createLogger } from './logger'
+import { getJurisdictionKind, getKindConfig, padGeoid, type GeoidScheme, type JurisdictionKind } from './jurisdictionKinds'
+
+const log = createLogger('data')
 
 export interface CsvRowRaw {
   Jurisdiction?: string
@@ -10,8 +19,14 @@ export interface CsvRowRaw {
   Notes?: string
   Latitude?: string | number
   Longitude?: string | number
+  /** Added by the snapshot pipeline: "sheet", "gazetteer" or "" */
+  'Coordinate Source'?: string
+  /** Optional explicit kind (see jurisdictionKinds.json), overriding the one implied by Government Type */
+  'Jurisdiction Kind'?: string
 }
 
+export type CoordinateSource = 'sheet' | 'gazetteer'
+
 export interface DashboardRecord {
   jurisdiction: string
   jurisdictionId: string
@@ -21,9 +36,87 @@ export interface DashboardRecord {
   governmentTypes: string[]
   isUnified: boolean
   displayGovernmentType: string
+  /** What the jurisdiction is, which decides its map layer */
+  kind: JurisdictionKind
+  /** How jurisdictionId is coded (state, county or place FIPS, AIANNH code, ...) */
+  geoidScheme: GeoidScheme
   notes: string
   latitude?: number
   longitude?: number
+  /** Where latitude/longitude came from: the sheet, or the Census place gazetteer */
+  coordinateSource?: CoordinateSource
+  /** Portal platform id detected from the URL (see platforms.ts) */
+  platform: string
+  /** Latest Census estimate, when the jurisdiction ID joins to the population snapshot */
+  population?: number
+  populationYear?: number
+  populationBaseYear?: number
+  /** Fractional change from populationBaseYear to populationYear (0.05 = +5%) */
+  populationGrowth?: number
+  /** Bucket id from POPULATION_BUCKETS, '' when unknown */
+  populationBucket: string
+  /** Latest link check for `url`, when scripts/check-portals.mjs has checked it */
+  health?: PortalHealth
+  /** Catalog statistics from scripts/harvest-catalogs.mjs (Socrata, CKAN and ArcGIS Hub portals) */
+  catalog?: CatalogStats
+}
+
+export type PortalHealthStatus = 'reachable' | 'redirected' | 'broken'
+
+export interface PortalHealth {
+  status: PortalHealthStatus
+  /** Final HTTP status; null when the request never completed */
+  httpStatus: number | null
+  finalUrl: string
+  checkedAt: string
+  error?: string
+}
+
+export interface CatalogStats {
+  platform: string
+  /** False when the platform's catalog API could not be read */
+  apiAvailable: boolean
+  apiUrl?: string
+  datasetCount?: number
+  topCategories?: Array<{ name: string; count: number }>
+  /** Most recent dataset update (YYYY-MM-DD) */
+  lastUpdated?: string | null
+  harvestedAt: string
+  error?: string
+}
+
+interface CatalogSnapshot {
+  generatedAt: string | null
+  /** Stats by jurisdiction ID, then portal URL */
+  jurisdictions: Record<string, Record<string, CatalogStats>>
+}
+
+interface PortalHealthSidecar {
+  checkedAt: string | null
+  results: Record<string, PortalHealth & { url: string; redirects: string[]; durationMs: number }>
+}
+
+/** Census estimates by GEOID, one value per year in `years` */
+export interface PopulationSnapshot {
+  years: number[]
+  states: Record<string, number[]>
+  counties: Record<string, number[]>
+  places: Record<string, number[]>
+  /** Place names from the place estimates file, empty when it was not bundled */
+  placeNames?: Record<string, string>
+}
+
+/** A sheet row that did not become a record */
+export interface DroppedRow {
+  jurisdiction: string
+  jurisdictionId: string
+  reason: string
+}
+
+export interface LoadReport {
+  rowsLoaded: number
+  records: DashboardRecord[]
+  dropped: DroppedRow[]
 }
 
 export interface SnapshotMeta {
@@ -32,53 +125,86 @@ export interface SnapshotMeta {
   recordCount?: number
 }
 
+export interface SnapshotChange {
+  jurisdiction: string
+  jurisdictionId: string
+  url: string
+  /** Set when the jurisdiction's URL was replaced */
+  previousUrl?: string
+  /** Sheet columns that differ from the previous snapshot */
+  fields?: string[]
+}
+
+export interface SnapshotChanges {
+  generatedAt: string
+  /** Date (YYYY-MM-DD) of the snapshot this one is compared against, null for the first */
+  previousSnapshot: string | null
+  currentSnapshot: string
+  added: SnapshotChange[]
+  removed: SnapshotChange[]
+  changed: SnapshotChange[]
+}
+
 /**
  * Remove leading apostrophes and trim whitespace from raw ID values.
  * Google Sheets sometimes adds apostrophes to force text formatting.
  */
-function normalizeId(raw: unknown): string {
+export function normalizeId(raw: unknown): string {
   return String(raw ?? '')
     .trim()
     .replace(/^'+/, '') // removes one or more leading apostrophes
 }
 
+function splitGovernmentTypes(governmentTypeRaw: string): string[] {
+  return governmentTypeRaw
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean)
+}
+
 /**
- * Normalize ID length based on government type.
- * Counties: 5 digits (e.g., "08001")
- * Cities (including unified city-county): 7 digits (e.g., "0820000")
- * 
- * For unified city-counties, also extract the 5-digit county code from the 7-digit city ID
+ * Normalize ID length for the row's jurisdiction kind (see jurisdictionKinds.json).
+ * States: 2 digits, counties: 5 (e.g., "08001"), cities (including unified
+ * city-county) and school districts: 7 (e.g., "0820000"), tribal areas: 4.
+ * Other public agencies have no fixed format and are left as is.
  */
-function normalizeIdForType(id: string, govType: string): string {
-  const clean = normalizeId(id)
-  const type = govType.trim().toLowerCase()
-  
-  // Only pure "county" gets 5 digits; everything else (city, unified, etc.) gets 7
-  const isCountyOnly = type === 'county'
-  return isCountyOnly ? clean.padStart(5, '0') : clean.padStart(7, '0')
+export function normalizeIdForType(id: string, govType: string, explicitKind = ''): string {
+  const kind = getJurisdictionKind(splitGovernmentTypes(govType), explicitKind)
+  return padGeoid(normalizeId(id), getKindConfig(kind).geoidScheme)
 }
 
-function normalizeRow(raw: CsvRowRaw): DashboardRecord | null {
+/**
+ * Why a sheet row can't become a record, or null when it can.
+ */
+export function getSkipReason(raw: CsvRowRaw): string | null {
+  // Check the raw ID: padding would turn an empty one into '00000'
+  if (!normalizeId(raw['Jurisdiction ID'])) return 'Missing jurisdiction ID'
+  if (!raw.URL?.trim()) return 'Missing URL'
+  // Rows can come from user-supplied sources, and the URL becomes a link
+  if (!/^https?:\/\//i.test(raw.URL.trim())) return 'URL is not an http(s) link'
+  return null
+}
+
+export function normalizeRow(raw: CsvRowRaw): DashboardRecord | null {
   const jurisdiction = raw.Jurisdiction?.trim() || ''
   const rawJurisdictionId = raw['Jurisdiction ID'] ?? ''
   const url = raw.URL?.trim() || ''
   const populationSize = raw['Population Size']?.trim() || ''
   const governmentTypeRaw = raw['Government Type']?.trim() || ''
   const notes = raw.Notes?.trim() || ''
+  const governmentTypes = splitGovernmentTypes(governmentTypeRaw)
+  const kind = getJurisdictionKind(governmentTypes, raw['Jurisdiction Kind'])
+  const { geoidScheme } = getKindConfig(kind)
 
-  // Normalize the jurisdiction ID (strip apostrophes, trim, pad to correct length)
-  const jurisdictionId = normalizeIdForType(rawJurisdictionId, governmentTypeRaw)
+  // Normalize the jurisdiction ID (strip apostrophes, trim, pad to its scheme's length)
+  const jurisdictionId = padGeoid(normalizeId(rawJurisdictionId), geoidScheme)
 
-  if (!jurisdictionId || !url) {
-    console.warn('Skipping row with missing jurisdiction id or url', jurisdiction)
+  const skipReason = getSkipReason(raw)
+  if (skipReason) {
+    log.warn(`Skipping row (${skipReason}):`, jurisdiction)
     return null
   }
 
-  const governmentTypes = governmentTypeRaw
-    .split(',')
-    .map((value) => value.trim())
-    .filter(Boolean)
-
   const hasCity = governmentTypes.includes('City')
   const hasCounty = governmentTypes.includes('County')
   const unifiedByNotes = notes.includes('Unified City-County Government')
@@ -109,6 +235,12 @@ function normalizeRow(raw: CsvRowRaw): DashboardRecord | null {
     }
   }
 
+  const rawSource = raw['Coordinate Source']?.trim()
+  const coordinateSource: CoordinateSource | undefined =
+    latitude !== undefined && longitude !== undefined
+      ? rawSource === 'gazetteer' ? 'gazetteer' : 'sheet'
+      : undefined
+
   return {
     jurisdiction,
     jurisdictionId,
@@ -118,90 +250,110 @@ function normalizeRow(raw: CsvRowRaw): DashboardRecord | null {
     governmentTypes,
     isUnified,
     displayGovernmentType,
+    kind,
+    geoidScheme,
     notes,
     latitude,
     longitude,
+    coordinateSource,
+    platform: detectPlatform(url),
+    populationBucket: '',
   }
 }
 
-export function loadDashboardData(): DashboardRecord[] {
-  const records: DashboardRecord[] = []
+/**
+ * Join Census population estimates onto a record by GEOID scheme: state,
+ * county (STATE + COUNTY FIPS) or place (STATE + PLACE FIPS) estimates.
+ * Other schemes have no estimates in the snapshot.
+ */
+function attachPopulation(record: DashboardRecord): DashboardRecord {
+  const { years, states, counties, places } = populationData as PopulationSnapshot
+  const sources: Partial<Record<GeoidScheme, Record<string, number[]>>> = { state: states, county: counties, place: places }
+  const estimates = sources[record.geoidScheme]?.[record.jurisdictionId]
+
+  if (!estimates || estimates.length === 0) {
+    return {
+      ...record,
+      populationBucket: getPopulationBucket(undefined, record.populationSize),
+    }
+  }
+
+  const first = estimates[0]
+  const population = estimates[estimates.length - 1]
+
+  return {
+    ...record,
+    population,
+    populationYear: years[years.length - 1],
+    populationBaseYear: years[0],
+    populationGrowth: first > 0 ? (population - first) / first : undefined,
+    populationBucket: getPopulationBucket(population, record.populationSize),
+  }
+}
+
+/**
+ * Merge the link check for the record's URL from portals.health.json.
+ */
+function attachHealth(record: DashboardRecord): DashboardRecord {
+  const result = (healthData as PortalHealthSidecar).results[record.url]
+  if (!result) return record
+
+  const { status, httpStatus, finalUrl, checkedAt, error } = result
+  return { ...record, health: { status, httpStatus, finalUrl, checkedAt, error } }
+}
 
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-  console.log('📊 STEP 1: LOADING DATA FROM CSV')
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━')
-  console.log('Total rows loaded from CSV:', snapshotData.length)
+/**
+ * Merge catalog statistics harvested for the record's jurisdiction ID and URL.
+ */
+function attachCatalog(record: DashboardRecord): DashboardRecord {
+  const entry = (catalogData as CatalogSnapshot).jurisdictions[record.jurisdictionId]?.[record.url]
+  if (!entry) return record
 
-  snapshotData.forEach((row) => {
-    const normalized = normalizeRow(row as CsvRowRaw)
+  const { platform, apiAvailable, apiUrl, datasetCount, topCategories, lastUpdated, harvestedAt, error } = entry
+  return {
+    ...record,
+    catalog: { platform, apiAvailable, apiUrl, datasetCount, topCategories, lastUpdated, harvestedAt, error },
+  }
+}
+
+/**
+ * Normalize sheet rows from any data source (see dataSources.ts), keeping
+ * the rows that were dropped and why.
+ */
+export function buildLoadReport(rows: CsvRowRaw[]): LoadReport {
+  const records: DashboardRecord[] = []
+  const dropped: DroppedRow[] = []
+
+  rows.forEach((raw) => {
+    const normalized = normalizeRow(raw)
     if (normalized) {
-      records.push(normalized)
+      records.push(attachCatalog(attachHealth(attachPopulation(normalized))))
+    } else {
+      dropped.push({
+        jurisdiction: raw.Jurisdiction?.trim() || '',
+        jurisdictionId: normalizeId(raw['Jurisdiction ID']),
+        reason: getSkipReason(raw) ?? 'Could not be normalized',
+      })
     }
   })
 
-  console.log('✅ Total records after normalization:', records.length)
-  
-  // Count by government type
-  const cityRows = records.filter(r => r.governmentTypes.includes('City'))
-  const countyRows = records.filter(r => r.governmentTypes.includes('County'))
-  const cityOnlyRows = records.filter(r => r.governmentTypes.includes('City') && !r.governmentTypes.includes('County'))
-  const countyOnlyRows = records.filter(r => r.governmentTypes.includes('County') && !r.governmentTypes.includes('City'))
-  const unifiedRows = records.filter(r => r.isUnified)
-  
-  console.log('Count of city rows (includes unified):', cityRows.length)
-  console.log('Count of county rows (includes unified):', countyRows.length)
-  console.log('Count of city-only rows:', cityOnlyRows.length)
-  console.log('Count of county-only rows:', countyOnlyRows.length)
-  console.log('Count of unified city-county rows:', unifiedRows.length)
-  
-  // Count by ID length (5-digit = county, 7-digit = city)
-  const fiveDigitIds = records.filter(r => r.jurisdictionId.length === 5)
-  const sevenDigitIds = records.filter(r => r.jurisdictionId.length === 7)
-  
-  console.log('Count with 5-digit IDs (county format):', fiveDigitIds.length)
-  console.log('Count with 7-digit IDs (city format):', sevenDigitIds.length)
-  
-  // Check for specific expected cities
-  console.log('\n🔍 CHECKING FOR EXPECTED JURISDICTIONS:')
-  const dallasCity = records.find(r => r.jurisdiction.toLowerCase().includes('dallas') && r.governmentTypes.includes('City'))
-  const dallasCounty = records.find(r => r.jurisdiction.toLowerCase().includes('dallas') && r.governmentTypes.includes('County'))
-  const denver = records.find(r => r.jurisdiction.toLowerCase().includes('denver'))
-  const laCity = records.find(r => r.jurisdiction.toLowerCase() === 'los angeles' && r.governmentTypes.includes('City'))
-  const laCounty = records.find(r => r.jurisdiction.toLowerCase().includes('los angeles') && r.governmentTypes.includes('County'))
-  
-  console.log(dallasCity ? '✅ Dallas city found:' : '❌ Dallas city NOT found', dallasCity ? `${dallasCity.jurisdictionId} (${dallasCity.governmentTypeRaw})` : '')
-  console.log(dallasCounty ? '✅ Dallas County found:' : '❌ Dallas County NOT found', dallasCounty ? `${dallasCounty.jurisdictionId} (${dallasCounty.governmentTypeRaw})` : '')
-  console.log(denver ? '✅ Denver found:' : '❌ Denver NOT found', denver ? `${denver.jurisdictionId} (${denver.governmentTypeRaw})` : '')
-  console.log(laCity ? '✅ Los Angeles city found:' : '❌ Los Angeles city NOT found', laCity ? `${laCity.jurisdictionId} (${laCity.governmentTypeRaw})` : '')
-  console.log(laCounty ? '✅ Los Angeles County found:' : '❌ Los Angeles County NOT found', laCounty ? `${laCounty.jurisdictionId} (${laCounty.governmentTypeRaw})` : '')
-  
-  // STEP 4: Collision detector
-  console.log('\n🔍 COLLISION DETECTOR:')
-  const nameMap = new Map<string, DashboardRecord[]>()
-  records.forEach(record => {
-    const name = record.jurisdiction.toLowerCase()
-    if (!nameMap.has(name)) {
-      nameMap.set(name, [])
-    }
-    nameMap.get(name)!.push(record)
-  })
-  
-  const collisions = Array.from(nameMap.entries())
-    .filter(([_, records]) => records.length > 1)
-    .sort((a, b) => b[1].length - a[1].length)
-  
-  console.log(`Found ${collisions.length} jurisdiction names with multiple records:`)
-  collisions.slice(0, 10).forEach(([name, recs]) => {
-    const types = recs.map(r => r.displayGovernmentType).join(', ')
-    const ids = recs.map(r => r.jurisdictionId).join(', ')
-    console.log(`  "${name}" has ${recs.length} records (${types}) [IDs: ${ids}]`)
-  })
-  
-  console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n')
+  log.debug(`Loaded ${rows.length} rows: ${records.length} records, ${dropped.length} dropped`)
+  return { rowsLoaded: rows.length, records, dropped }
+}
 
-  return records
+export function getPopulationSnapshot(): PopulationSnapshot {
+  return populationData as PopulationSnapshot
 }
 
 export function getSnapshotMeta(): SnapshotMeta {
   return snapshotMeta as SnapshotMeta
 }
+
+export function getSnapshotChanges(): SnapshotChanges {
+  return snapshotChanges as SnapshotChanges
+}
+
+/** When portal links were last checked, or null if they never have been */
+export function getHealthCheckedAt(): string | null {
+  return (healthData as PortalHealthSidecar).checkedAt
+}
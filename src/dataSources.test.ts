@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  createBundledSource,
+  createDataSource,
+  createFileSource,
+  createRemoteSource,
+  getDataSourceConfig,
+  loadSourceReport,
+  parseCsvRows,
+  parseCsvWithLines,
+  parseJsonRows,
+  type DataSource,
+} from './dataSources'
+
+const CSV = [
+  '# exportedAt: 2026-10-19T00:00:00.000Z',
+  'Jurisdiction,Jurisdiction ID,URL,Population Size,Government Type,Notes,Latitude,Longitude',
+  'Dallas County,48113,https://www.dallascounty.org/,,County,,,',
+  'Dallas,4819000,https://www.dallasopendata.com/,,City,,32.7767,-96.797',
+  'No link,0820000,,,City,,,',
+].join('\n')
+
+const ENV = { VITE_DATA_SOURCE: undefined, VITE_ALLOW_SOURCE_PARAM: 'true' }
+
+describe('parseCsvRows', () => {
+  it('keeps IDs as strings and skips # comment lines', () => {
+    const rows = parseCsvRows(CSV)
+    expect(rows).toHaveLength(3)
+    expect(rows[0]['Jurisdiction ID']).toBe('48113')
+  })
+
+  it('rejects files without a Jurisdiction ID column', () => {
+    expect(() => parseCsvRows('Name,Link\nDallas,https://example.gov')).toThrow('No "Jurisdiction ID" column found')
+  })
+})
+
+describe('parseCsvWithLines', () => {
+  it('numbers rows by the line they start on', () => {
+    const text = [
+      'Jurisdiction,Jurisdiction ID,URL,Notes',
+      'Dallas County,48113,https://www.dallascounty.org/,"Two',
+      'lines"',
+      '',
+      '# comment between rows',
+      'Dallas,4819000,https://www.dallasopendata.com/,',
+      'Austin,4805000,https://data.austintexas.gov/,"Three',
+      '',
+      'lines"',
+      'Houston,4835000,https://data.houstontx.gov/,',
+    ].join('\r\n')
+
+    const { rows, lines } = parseCsvWithLines(text)
+    expect(rows.map((row) => row.Jurisdiction)).toEqual(['Dallas County', 'Dallas', 'Austin', 'Houston'])
+    expect(lines).toEqual([2, 6, 7, 10])
+  })
+})
+
+describe('parseJsonRows', () => {
+  it('reads an array of sheet rows', () => {
+    expect(parseJsonRows('[{"Jurisdiction ID": "48113", "URL": "https://example.gov"}]')).toHaveLength(1)
+  })
+
+  it('rejects anything but an array', () => {
+    expect(() => parseJsonRows('{"records": []}')).toThrow('Expected a JSON array')
+  })
+})
+
+describe('getDataSourceConfig', () => {
+  it('defaults to the bundled snapshot', () => {
+    expect(getDataSourceConfig('', ENV)).toEqual({ kind: 'bundled' })
+  })
+
+  it('reads ?source= as a keyword or an http(s) URL', () => {
+    expect(getDataSourceConfig('?source=file', ENV)).toEqual({ kind: 'file' })
+    expect(getDataSourceConfig('?source=https://example.org/portals.csv', ENV))
+      .toEqual({ kind: 'remote', url: 'https://example.org/portals.csv' })
+    expect(getDataSourceConfig('?source=/inventory.json', ENV, 'https://maps.example.org/app/'))
+      .toEqual({ kind: 'remote', url: 'https://maps.example.org/inventory.json' })
+  })
+
+  it('ignores the parameter unless the build allows it', () => {
+    expect(getDataSourceConfig('?source=https://example.org/portals.csv', { ...ENV, VITE_ALLOW_SOURCE_PARAM: undefined }))
+      .toEqual({ kind: 'bundled' })
+    expect(getDataSourceConfig('?source=file', { ...ENV, VITE_ALLOW_SOURCE_PARAM: 'false' })).toEqual({ kind: 'bundled' })
+  })
+
+  it('ignores unsafe or disallowed parameters and falls back to the build config', () => {
+    const env = { VITE_DATA_SOURCE: 'https://example.org/default.json', VITE_ALLOW_SOURCE_PARAM: 'true' }
+    expect(getDataSourceConfig('?source=javascript:alert(1)', env))
+      .toEqual({ kind: 'remote', url: 'https://example.org/default.json' })
+    expect(getDataSourceConfig('?source=file', { ...env, VITE_ALLOW_SOURCE_PARAM: undefined }))
+      .toEqual({ kind: 'remote', url: 'https://example.org/default.json' })
+  })
+})
+
+describe('data sources', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it('loads the bundled snapshot', async () => {
+    const records = await createBundledSource().load()
+    expect(records.length).toBeGreaterThan(100)
+    expect(records.find((record) => record.jurisdictionId === '4819000')?.jurisdiction).toBe('Dallas, TX')
+  })
+
+  it('loads a remote CSV and reports dropped rows', async () => {
+    const fetchMock = vi.fn(async () => new Response(CSV, { headers: { 'content-type': 'text/csv' } }))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const report = await loadSourceReport(createRemoteSource('https://example.org/inventory'))
+    expect(fetchMock).toHaveBeenCalledWith('https://example.org/inventory')
+    expect(report.rowsLoaded).toBe(3)
+    expect(report.records.map((record) => record.jurisdictionId)).toEqual(['48113', '4819000'])
+    expect(report.dropped).toEqual([{ jurisdiction: 'No link', jurisdictionId: '0820000', reason: 'Missing URL' }])
+  })
+
+  it('fails with the HTTP status of a remote source', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404, statusText: 'Not Found' })))
+    await expect(createRemoteSource('https://example.org/portals.json').load())
+      .rejects.toThrow('Failed to load https://example.org/portals.json: 404 Not Found')
+  })
+
+  it('loads a local JSON file', async () => {
+    const file = new File(['[{"Jurisdiction ID": "48113", "URL": "https://www.dallascounty.org/", "Government Type": "County"}]'], 'inventory.json')
+    const source = createDataSource({ kind: 'file' }, file)
+    expect(source?.label).toBe('inventory.json')
+    expect((await source!.load())[0].jurisdictionId).toBe('48113')
+    expect(createDataSource({ kind: 'file' })).toBeNull()
+  })
+
+  it('reports custom sources that only implement load()', async () => {
+    const records = await createFileSource(new File([CSV], 'inventory.csv')).load()
+    const custom: DataSource = { kind: 'remote', label: 'Partner API', load: async () => records }
+    expect(await loadSourceReport(custom)).toEqual({ rowsLoaded: 2, records, dropped: [] })
+  })
+})
@@ -0,0 +1,197 @@
+import Papa from 'papaparse'
+import { buildLoadReport, type CsvRowRaw, type DashboardRecord, type LoadReport } from './dataLoader'
+
+/**
+ * Where the portal inventory comes from. Forks and partner teams can point
+ * the app at their own inventory (same columns as the sheet) without code
+ * changes, through build config or the query string:
+ *
+ *   VITE_DATA_SOURCE=https://example.org/portals.csv npm run build
+ *   ?source=https://example.org/portals.json
+ *   ?source=file        ask for a local CSV or JSON file
+ *   ?source=bundled     the snapshot in src/data (default)
+ */
+export type DataSourceKind = 'bundled' | 'remote' | 'file'
+
+export interface DataSource {
+  kind: DataSourceKind
+  /** Describes the source in the header and in error messages */
+  label: string
+  load(): Promise<DashboardRecord[]>
+  /** Like load(), plus the rows dropped along the way (for the ?debug=1 drawer) */
+  loadReport?(): Promise<LoadReport>
+}
+
+export type DataSourceConfig =
+  | { kind: 'bundled' }
+  | { kind: 'remote'; url: string }
+  | { kind: 'file' }
+
+type RowFormat = 'csv' | 'json'
+
+export interface CsvRows {
+  rows: CsvRowRaw[]
+  /** Line each row starts on in the file (the header row is line 1) */
+  lines: number[]
+}
+
+/**
+ * Parse sheet rows from CSV with the line each row starts on. Blank lines and
+ * lines starting with `#` are skipped, and quoted values can span lines, so
+ * lines are counted from the parser's cursor rather than the row index.
+ */
+export function parseCsvWithLines(text: string): CsvRows {
+  const rows: CsvRowRaw[] = []
+  const lines: number[] = []
+  let position = 0
+  let line = 1
+
+  Papa.parse<CsvRowRaw>(text, {
+    header: true,
+    skipEmptyLines: true,
+    comments: '#',
+    dynamicTyping: false, // Keep all values as strings to preserve leading zeros
+    step: ({ data, meta }) => {
+      // The cursor is just past the row's line break; count lines up to its last character
+      const end = text[meta.cursor - 1] === '\n' ? meta.cursor - 1 : meta.cursor
+      for (; position < end; position++) {
+        if (text[position] === '\n') line++
+      }
+      const embedded = Object.values(data).join('').split('\n').length - 1
+      rows.push(data)
+      lines.push(line - embedded)
+    },
+  })
+
+  return { rows: checkColumns(rows), lines }
+}
+
+/**
+ * Parse sheet rows from CSV. Lines starting with `#` are skipped.
+ */
+export function parseCsvRows(text: string): CsvRowRaw[] {
+  return parseCsvWithLines(text).rows
+}
+
+/**
+ * Parse sheet rows from JSON: an array of objects keyed by the sheet's
+ * column headers, as in src/data/portals.snapshot.json.
+ */
+export function parseJsonRows(text: string): CsvRowRaw[] {
+  const data: unknown = JSON.parse(text)
+  if (!Array.isArray(data)) {
+    throw new Error('Expected a JSON array of rows keyed by the sheet column headers')
+  }
+  return checkColumns(data as CsvRowRaw[])
+}
+
+function checkColumns(rows: CsvRowRaw[]): CsvRowRaw[] {
+  if (rows.length > 0 && !rows.some((row) => row && typeof row === 'object' && 'Jurisdiction ID' in row)) {
+    throw new Error('No "Jurisdiction ID" column found')
+  }
+  return rows
+}
+
+function formatOf(name: string, contentType = ''): RowFormat {
+  if (/\.csv($|\?)/i.test(name) || contentType.includes('text/csv')) return 'csv'
+  return 'json'
+}
+
+function parseRows(text: string, format: RowFormat): CsvRowRaw[] {
+  return format === 'csv' ? parseCsvRows(text) : parseJsonRows(text)
+}
+
+/** A source built on sheet rows; records get the same normalization and sidecar joins as the snapshot */
+function rowsSource(kind: DataSourceKind, label: string, loadRows: () => Promise<CsvRowRaw[]>): DataSource {
+  const loadReport = async () => buildLoadReport(await loadRows())
+  return {
+    kind,
+    label,
+    loadReport,
+    load: async () => (await loadReport()).records,
+  }
+}
+
+/** The snapshot bundled in src/data, split into its own chunk */
+export function createBundledSource(): DataSource {
+  return rowsSource('bundled', 'Bundled snapshot', async () => {
+    const snapshot = await import('./data/portals.snapshot.json')
+    return snapshot.default as CsvRowRaw[]
+  })
+}
+
+/** A JSON or CSV file served over http(s); CSV is detected by extension or content type */
+export function createRemoteSource(url: string): DataSource {
+  return rowsSource('remote', url, async () => {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url}: ${response.status} ${response.statusText}`)
+    }
+    return parseRows(await response.text(), formatOf(url, response.headers.get('content-type') ?? ''))
+  })
+}
+
+/** A CSV or JSON file chosen by the user; CSV is detected by extension */
+export function createFileSource(file: File): DataSource {
+  return rowsSource('file', file.name, async () => parseRows(await file.text(), formatOf(file.name)))
+}
+
+function parseSourceValue(value: string, baseUrl: string): DataSourceConfig | null {
+  if (value === 'bundled' || value === 'file') return { kind: value }
+  try {
+    const url = new URL(value, baseUrl)
+    return url.protocol === 'http:' || url.protocol === 'https:' ? { kind: 'remote', url: url.href } : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * The configured source: the ?source= parameter when the build allows it
+ * (VITE_ALLOW_SOURCE_PARAM=true) and it is valid, otherwise VITE_DATA_SOURCE,
+ * otherwise the bundled snapshot. The parameter is off by default so a
+ * crafted link can't make the site show someone else's list.
+ */
+export function getDataSourceConfig(
+  search: string,
+  env: Pick<ImportMetaEnv, 'VITE_DATA_SOURCE' | 'VITE_ALLOW_SOURCE_PARAM'> = import.meta.env,
+  baseUrl = typeof window === 'undefined' ? 'http://localhost/' : window.location.href
+): DataSourceConfig {
+  const param = new URLSearchParams(search).get('source')
+  if (param && env.VITE_ALLOW_SOURCE_PARAM === 'true') {
+    const config = parseSourceValue(param, baseUrl)
+    if (config) return config
+  }
+  if (env.VITE_DATA_SOURCE) {
+    const config = parseSourceValue(env.VITE_DATA_SOURCE, baseUrl)
+    if (config) return config
+  }
+  return { kind: 'bundled' }
+}
+
+/** The current page without ?source=, which falls back to the default source */
+export function defaultSourceHref(): string {
+  const params = new URLSearchParams(window.location.search)
+  params.delete('source')
+  const query = params.toString()
+  return `${window.location.pathname}${query ? `?${query}` : ''}`
+}
+
+/** Create the source for a config; 'file' sources need the chosen file */
+export function createDataSource(config: DataSourceConfig, file?: File): DataSource | null {
+  switch (config.kind) {
+    case 'bundled':
+      return createBundledSource()
+    case 'remote':
+      return createRemoteSource(config.url)
+    case 'file':
+      return file ? createFileSource(file) : null
+  }
+}
+
+/** The source's load report, or one without dropped rows for sources that only implement load() */
+export async function loadSourceReport(source: DataSource): Promise<LoadReport> {
+  if (source.loadReport) return source.loadReport()
+  const records = await source.load()
+  return { rowsLoaded: records.length, records, dropped: [] }
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import type { LoadReport } from './dataLoader'
+import { buildPipelineDiagnostics, getWatchList } from './diagnostics'
+import type { DashboardFilters } from './filters'
+import { record } from './testFixtures'
+
+const NO_FILTERS: DashboardFilters = { govType: '', popSizes: new Set(), platform: '', hideBroken: false }
+
+const dallas = record({ Jurisdiction: 'Dallas, TX', 'Jurisdiction ID': '4819000', Latitude: 32.78, Longitude: -96.8 })
+const dallasCounty = record({ Jurisdiction: 'Dallas County, TX', 'Jurisdiction ID': '48113', 'Government Type': 'County' })
+const nowhere = record({ Jurisdiction: 'Nowhere, TX', 'Jurisdiction ID': '4899999' })
+const ghostCounty = record({ Jurisdiction: 'Ghost County, TX', 'Jurisdiction ID': '48999', 'Government Type': 'County' })
+
+const report: LoadReport = {
+  rowsLoaded: 5,
+  records: [dallas, dallasCounty, nowhere, ghostCounty],
+  dropped: [{ jurisdiction: 'Blank, TX', jurisdictionId: '4800001', reason: 'Missing URL' }],
+}
+
+describe('buildPipelineDiagnostics', () => {
+  it('counts every stage and records why rows were dropped', () => {
+    const { stages, dropped } = buildPipelineDiagnostics(report, NO_FILTERS, ['48113', '48201'])
+
+    expect(stages.map((stage) => [stage.stage, stage.count, stage.dropped])).toEqual([
+      ['loaded', 5, 0],
+      ['normalized', 4, 1],
+      ['filtered', 4, 0],
+      ['counties', 1, 1],
+      ['cities', 1, 1],
+      ['other', 0, 0],
+    ])
+    expect(dropped).toEqual([
+      { stage: 'normalized', jurisdiction: 'Blank, TX', jurisdictionId: '4800001', reason: 'Missing URL' },
+      { stage: 'cities', jurisdiction: 'Nowhere, TX', jurisdictionId: '4899999', reason: 'City has no latitude/longitude' },
+      { stage: 'counties', jurisdiction: 'Ghost County, TX', jurisdictionId: '48999', reason: 'No county polygon matches GEOID 48999' },
+    ])
+  })
+
+  it('reports the filter that removed a record', () => {
+    const { dropped } = buildPipelineDiagnostics(report, { ...NO_FILTERS, govType: 'County' }, ['48113'])
+    expect(dropped).toContainEqual({
+      stage: 'filtered',
+      jurisdiction: 'Dallas, TX',
+      jurisdictionId: '4819000',
+      reason: 'Government type is not County',
+    })
+  })
+
+  it('places states by their outline and other kinds by their coordinates', () => {
+    const texas = record({ Jurisdiction: 'Texas', 'Jurisdiction ID': '48', 'Government Type': 'State', Latitude: '', Longitude: '' })
+    const district = record({ Jurisdiction: 'Dallas ISD', 'Jurisdiction ID': '4816230', 'Government Type': 'School District', Latitude: '', Longitude: '' })
+    const { stages, dropped } = buildPipelineDiagnostics(
+      { rowsLoaded: 2, records: [texas, district], dropped: [] },
+      NO_FILTERS,
+      [],
+      [],
+      ['48']
+    )
+
+    expect(stages.find((stage) => stage.stage === 'other')).toMatchObject({ count: 1, dropped: 1 })
+    expect(dropped).toEqual([
+      { stage: 'other', jurisdiction: 'Dallas ISD', jurisdictionId: '4816230', reason: 'School District has no latitude/longitude' },
+    ])
+  })
+
+  it('says whether each watched jurisdiction reached the map', () => {
+    const { watched } = buildPipelineDiagnostics(
+      report,
+      { ...NO_FILTERS, govType: 'City' },
+      ['48113'],
+      ['4819000', '48113', '4800001', '1234567']
+    )
+    expect(watched.map((entry) => [entry.jurisdictionId, entry.onMap, entry.status])).toEqual([
+      ['4819000', true, 'On map'],
+      ['48113', false, 'Government type is not City'],
+      ['4800001', false, 'Missing URL'],
+      ['1234567', false, 'Not in the snapshot'],
+    ])
+  })
+})
+
+describe('getWatchList', () => {
+  it('reads IDs from the watch parameter', () => {
+    expect(getWatchList('?debug=1&watch=4819000, 48113,')).toEqual(['4819000', '48113'])
+  })
+
+  it('falls back to the configured list', () => {
+    expect(getWatchList('?debug=1')).toContain('4819000')
+  })
+})
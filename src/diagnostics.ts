@@ -0,0 +1,138 @@
+import type { DashboardRecord, LoadReport } from './dataLoader'
+import { getFilterRejection, type DashboardFilters } from './filters'
+import { JURISDICTION_KINDS } from './jurisdictionKinds'
+import { createCityFeatures, createPointFeatures, getCountyJoinIds, matchCountyId } from './mapJoin'
+import diagnosticsConfig from './diagnosticsConfig.json'
+
+/**
+ * Pipeline counts for the ?debug=1 diagnostics drawer: how many rows survive
+ * each step from the sheet to the map, and why the others were dropped.
+ */
+export type DiagnosticsStage = 'normalized' | 'filtered' | 'counties' | 'cities' | 'other'
+
+export interface StageSummary {
+  stage: DiagnosticsStage | 'loaded'
+  label: string
+  count: number
+  dropped: number
+}
+
+export interface DroppedRecord {
+  stage: DiagnosticsStage
+  jurisdiction: string
+  jurisdictionId: string
+  reason: string
+}
+
+export interface WatchedJurisdiction {
+  jurisdictionId: string
+  jurisdiction: string
+  /** 'On map' or the reason it isn't */
+  status: string
+  onMap: boolean
+}
+
+export interface PipelineDiagnostics {
+  stages: StageSummary[]
+  dropped: DroppedRecord[]
+  watched: WatchedJurisdiction[]
+}
+
+/**
+ * Jurisdiction IDs to watch: ?watch=4819000,08031 when given, otherwise
+ * the list in diagnosticsConfig.json.
+ */
+export function getWatchList(search: string): string[] {
+  const param = new URLSearchParams(search).get('watch')
+  if (param) return param.split(',').map((id) => id.trim()).filter(Boolean)
+  return diagnosticsConfig.watch
+}
+
+function droppedFrom(stage: DiagnosticsStage, record: DashboardRecord, reason: string): DroppedRecord {
+  return { stage, jurisdiction: record.jurisdiction, jurisdictionId: record.jurisdictionId, reason }
+}
+
+export function buildPipelineDiagnostics(
+  report: LoadReport,
+  filters: DashboardFilters,
+  countyIds: string[],
+  watch: string[] = [],
+  stateIds: string[] = []
+): PipelineDiagnostics {
+  const dropped: DroppedRecord[] = report.dropped.map((row) => ({ stage: 'normalized', ...row }))
+
+  // Filters
+  const filtered: DashboardRecord[] = []
+  report.records.forEach((record) => {
+    const rejection = getFilterRejection(record, filters)
+    if (rejection) dropped.push(droppedFrom('filtered', record, rejection))
+    else filtered.push(record)
+  })
+
+  // County polygons, joined as on the map
+  const joinIds = getCountyJoinIds(filtered)
+  const matchedIds = new Set<string>()
+  countyIds.forEach((countyId) => {
+    const csvId = matchCountyId(countyId, joinIds)
+    if (csvId) matchedIds.add(csvId)
+  })
+
+  // City markers
+  const { features: cityFeatures, missingCoordinates } = createCityFeatures(filtered)
+  const markerIds = new Set(cityFeatures.map((feature) => String(feature.id)))
+
+  missingCoordinates.forEach((record) => {
+    if (!matchedIds.has(record.jurisdictionId)) {
+      dropped.push(droppedFrom('cities', record, 'City has no latitude/longitude'))
+    }
+  })
+  filtered.forEach((record) => {
+    if (record.kind === 'county' && !matchedIds.has(record.jurisdictionId)) {
+      dropped.push(droppedFrom('counties', record, `No county polygon matches GEOID ${record.jurisdictionId}`))
+    }
+  })
+
+  // State outlines and the other point kinds
+  const stateIdSet = new Set(stateIds)
+  const otherIds = new Set<string>()
+  filtered.forEach((record) => {
+    if (record.kind !== 'state') return
+    if (stateIdSet.has(record.jurisdictionId)) otherIds.add(record.jurisdictionId)
+    else dropped.push(droppedFrom('other', record, `No state outline matches FIPS ${record.jurisdictionId}`))
+  })
+  JURISDICTION_KINDS
+    .filter((kind) => kind.shape === 'point' && kind.id !== 'place')
+    .forEach((kind) => {
+      const { features, missingCoordinates } = createPointFeatures(filtered, kind.id)
+      features.forEach((feature) => otherIds.add(String(feature.id)))
+      missingCoordinates.forEach((record) => {
+        dropped.push(droppedFrom('other', record, `${record.displayGovernmentType} has no latitude/longitude`))
+      })
+    })
+
+  const countOf = (stage: DiagnosticsStage) => dropped.filter((entry) => entry.stage === stage).length
+
+  const stages: StageSummary[] = [
+    { stage: 'loaded', label: 'Rows loaded', count: report.rowsLoaded, dropped: 0 },
+    { stage: 'normalized', label: 'Records normalized', count: report.records.length, dropped: countOf('normalized') },
+    { stage: 'filtered', label: 'Records matching filters', count: filtered.length, dropped: countOf('filtered') },
+    { stage: 'counties', label: 'County polygons matched', count: matchedIds.size, dropped: countOf('counties') },
+    { stage: 'cities', label: 'City markers created', count: cityFeatures.length, dropped: countOf('cities') },
+    { stage: 'other', label: 'State outlines and other markers', count: otherIds.size, dropped: countOf('other') },
+  ]
+
+  const watched = watch.map((jurisdictionId): WatchedJurisdiction => {
+    const record = report.records.find((candidate) => candidate.jurisdictionId === jurisdictionId)
+    const drop = dropped.find((entry) => entry.jurisdictionId === jurisdictionId)
+    const onMap = matchedIds.has(jurisdictionId) || markerIds.has(jurisdictionId) || otherIds.has(jurisdictionId)
+
+    return {
+      jurisdictionId,
+      jurisdiction: record?.jurisdiction ?? drop?.jurisdiction ?? '',
+      onMap,
+      status: onMap ? 'On map' : drop?.reason ?? 'Not in the snapshot',
+    }
+  })
+
+  return { stages, dropped, watched }
+}
@@ -0,0 +1,94 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { cleanup, renderHook } from '@testing-library/react'
+import { postEmbedEvent, useEmbedCommands } from './embedBridge'
+import { parseEmbedConfig } from './embedConfig'
+import { wrapEmbedMessage, type EmbedCommand } from './embedProtocol'
+
+// One command of every type; the mapped type fails to compile when a new command isn't listed
+const COMMANDS: { [T in EmbedCommand['type']]: Extract<EmbedCommand, { type: T }> } = {
+  hello: { type: 'hello' },
+  setFilters: { type: 'setFilters', filters: { govType: 'County', popSizes: ['under-50k'] } },
+  select: { type: 'select', ids: ['06037'], mode: 'add', focus: true },
+  setRegion: { type: 'setRegion', region: 'alaska' },
+  setTheme: { type: 'setTheme', theme: 'dark', palette: 'colorblind' },
+}
+
+describe('useEmbedCommands', () => {
+  let host: HTMLIFrameElement
+
+  // Stand in for the host page: the app reads window.parent to decide it is embedded
+  beforeEach(() => {
+    host = document.createElement('iframe')
+    document.body.appendChild(host)
+    vi.spyOn(window, 'parent', 'get').mockReturnValue(host.contentWindow as Window & typeof globalThis)
+  })
+
+  afterEach(() => {
+    cleanup()
+    vi.restoreAllMocks()
+    host.remove()
+  })
+
+  function post(data: unknown, source: Window | null = host.contentWindow) {
+    window.dispatchEvent(new MessageEvent('message', { data, source, origin: 'https://host.example' }))
+  }
+
+  it.each(Object.values(COMMANDS))('delivers $type commands from the host page', (command) => {
+    const onCommand = vi.fn()
+    renderHook(() => useEmbedCommands(parseEmbedConfig(''), onCommand))
+
+    post(wrapEmbedMessage(command))
+
+    expect(onCommand).toHaveBeenCalledTimes(1)
+    expect(onCommand).toHaveBeenCalledWith(expect.objectContaining(command))
+  })
+
+  it('ignores unknown commands, unwrapped messages and other windows', () => {
+    const onCommand = vi.fn()
+    renderHook(() => useEmbedCommands(parseEmbedConfig(''), onCommand))
+
+    post(wrapEmbedMessage({ type: 'reload' }))
+    post(COMMANDS.select)
+    post(wrapEmbedMessage(COMMANDS.select), window)
+
+    expect(onCommand).not.toHaveBeenCalled()
+  })
+
+  it('ignores commands with missing or invalid fields', () => {
+    const onCommand = vi.fn()
+    renderHook(() => useEmbedCommands(parseEmbedConfig(''), onCommand))
+
+    post(wrapEmbedMessage({ type: 'select', ids: '06037' }))
+    post(wrapEmbedMessage({ type: 'select', ids: [6037] }))
+    post(wrapEmbedMessage({ type: 'setRegion', region: 'guam' }))
+    post(wrapEmbedMessage({ type: 'setFilters', filters: { govType: 'Township' } }))
+    post(wrapEmbedMessage({ type: 'setFilters' }))
+    post(wrapEmbedMessage({ type: 'setTheme', palette: 'neon' }))
+
+    expect(onCommand).not.toHaveBeenCalled()
+  })
+
+  it('exchanges no messages when the configured origin is invalid', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const config = parseEmbedConfig('?origin=foo')
+    const postMessage = vi.spyOn(host.contentWindow!, 'postMessage')
+    const onCommand = vi.fn()
+    renderHook(() => useEmbedCommands(config, onCommand))
+
+    expect(() => postEmbedEvent({ type: 'selectionChange', selected: [], records: [] }, config)).not.toThrow()
+    post(wrapEmbedMessage(COMMANDS.setRegion))
+
+    expect(postMessage).not.toHaveBeenCalled()
+    expect(onCommand).not.toHaveBeenCalled()
+  })
+
+  it('only accepts messages from the configured origin', () => {
+    const onCommand = vi.fn()
+    renderHook(() => useEmbedCommands(parseEmbedConfig('?origin=https://other.example'), onCommand))
+
+    post(wrapEmbedMessage(COMMANDS.setRegion))
+
+    expect(onCommand).not.toHaveBeenCalled()
+  })
+})
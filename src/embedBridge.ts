@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react'
+import type { EmbedConfig } from './embedConfig'
+import {
+  EMBED_COMMAND_TYPES,
+  isEmbedCommand,
+  isEmbedMessage,
+  wrapEmbedMessage,
+  type EmbedCommand,
+  type EmbedEvent,
+} from './embedProtocol'
+import { createLogger } from './logger'
+
+const log = createLogger('embed')
+
+function hasHost(): boolean {
+  return window.parent !== window
+}
+
+/**
+ * Send an event to the host page. No-op when the app is not in an iframe
+ * or the configured origin is invalid.
+ */
+export function postEmbedEvent(event: EmbedEvent, config: EmbedConfig): void {
+  if (!hasHost() || config.hostOrigin === null) return
+  window.parent.postMessage(wrapEmbedMessage(event), config.hostOrigin)
+}
+
+/**
+ * Listen for commands from the host page. Messages from other windows, other
+ * origins (when `origin` is configured, all of them when it is invalid), with
+ * unknown types or with invalid fields are ignored.
+ */
+export function useEmbedCommands(config: EmbedConfig, onCommand: (command: EmbedCommand) => void): void {
+  const onCommandRef = useRef(onCommand)
+
+  useEffect(() => {
+    onCommandRef.current = onCommand
+  }, [onCommand])
+
+  useEffect(() => {
+    if (!hasHost() || config.hostOrigin === null) return
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return
+      if (config.hostOrigin !== '*' && event.origin !== config.hostOrigin) return
+      if (!isEmbedMessage(event.data)) return
+      if (!isEmbedCommand(event.data)) {
+        const known = EMBED_COMMAND_TYPES.includes(event.data.type as EmbedCommand['type'])
+        log.warn(`Ignoring ${known ? 'malformed' : 'unknown'} embed command:`, event.data.type)
+        return
+      }
+      onCommandRef.current(event.data)
+    }
+
+    window.addEventListener('message', handleMessage)
+    return () => window.removeEventListener('message', handleMessage)
+  }, [config.hostOrigin])
+}
@@ -0,0 +1,25 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { parseEmbedConfig } from './embedConfig'
+
+describe('parseEmbedConfig', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('exchanges messages with any origin by default', () => {
+    expect(parseEmbedConfig('?embed=1').hostOrigin).toBe('*')
+  })
+
+  it('normalizes the host origin', () => {
+    expect(parseEmbedConfig('?origin=https://host.example').hostOrigin).toBe('https://host.example')
+    expect(parseEmbedConfig('?origin=https://Host.Example:443/page?x=1').hostOrigin).toBe('https://host.example')
+  })
+
+  it.each(['foo', 'host.example', 'file:///tmp/page.html', 'data:text/html,hi'])('turns messaging off for %s', (origin) => {
+    expect(parseEmbedConfig(`?origin=${encodeURIComponent(origin)}`).hostOrigin).toBeNull()
+  })
+})
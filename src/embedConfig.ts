@@ -0,0 +1,67 @@
+import { createLogger } from './logger'
+import { isPaletteId, isThemeMode, type PaletteId, type ThemeMode } from './themes'
+
+/**
+ * Embed options read from the query string. Filters, selection and region
+ * use the regular URL state parameters (see urlState.ts).
+ *
+ *   embed=1        hide the page header
+ *   sidebar=0      hide the filters sidebar
+ *   table=0        hide the Selected Jurisdictions table
+ *   results=0      hide the Results table
+ *   gaps=0         hide the Coverage gaps panel
+ *   height=600     map height in pixels
+ *   theme=dark     light, dark or auto (follows the system setting)
+ *   palette=colorblind   map palette (see themes.json)
+ *   origin=https://host.example   host origin for postMessage (default: any)
+ */
+export interface EmbedConfig {
+  embedded: boolean
+  showSidebar: boolean
+  showSelectedTable: boolean
+  showResultsTable: boolean
+  showGapsPanel: boolean
+  height?: number
+  /** Unset when the host doesn't pick one; the user's saved choice or 'auto' applies */
+  theme?: ThemeMode
+  palette?: PaletteId
+  /**
+   * Origin messages are sent to and accepted from; '*' when not set, and
+   * null when `origin` is not a valid origin, so nothing is exchanged
+   */
+  hostOrigin: string | null
+}
+
+const log = createLogger('embed')
+
+// postMessage throws on a target origin that isn't one, so normalize it here
+function parseHostOrigin(value: string | null): string | null {
+  if (!value) return '*'
+  try {
+    const { origin } = new URL(value)
+    if (origin !== 'null') return origin
+  } catch {
+    // Not a URL
+  }
+  log.warn('Ignoring the embed origin parameter, which is not an origin; no messages are exchanged:', value)
+  return null
+}
+
+export function parseEmbedConfig(search: string): EmbedConfig {
+  const params = new URLSearchParams(search)
+  const height = Number(params.get('height'))
+  const theme = params.get('theme') ?? ''
+  const palette = params.get('palette') ?? ''
+
+  return {
+    embedded: params.get('embed') === '1',
+    showSidebar: params.get('sidebar') !== '0',
+    showSelectedTable: params.get('table') !== '0',
+    showResultsTable: params.get('results') !== '0',
+    showGapsPanel: params.get('gaps') !== '0',
+    height: Number.isFinite(height) && height > 0 ? height : undefined,
+    theme: isThemeMode(theme) ? theme : undefined,
+    palette: isPaletteId(palette) ? palette : undefined,
+    hostOrigin: parseHostOrigin(params.get('origin')),
+  }
+}
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { connectEmbeddedMap } from './embedHost'
+import { wrapEmbedMessage, type EmbedEvent } from './embedProtocol'
+
+const ORIGIN = 'https://map.example'
+
+const READY: EmbedEvent = {
+  type: 'ready',
+  filters: { govType: '', popSizes: [], platform: '', hideBroken: false },
+  selected: [],
+  region: 'lower48',
+}
+
+describe('connectEmbeddedMap', () => {
+  let iframe: HTMLIFrameElement
+  let postMessage: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    iframe = document.createElement('iframe')
+    document.body.appendChild(iframe)
+    postMessage = vi.fn()
+    iframe.contentWindow!.postMessage = postMessage
+  })
+
+  afterEach(() => {
+    iframe.remove()
+  })
+
+  function fromMap(event: EmbedEvent) {
+    window.dispatchEvent(new MessageEvent('message', {
+      data: wrapEmbedMessage(event),
+      source: iframe.contentWindow,
+      origin: ORIGIN,
+    }))
+  }
+
+  const sentTypes = () => postMessage.mock.calls.map(([message]) => message.type)
+
+  it('says hello on connect and whenever the iframe loads', () => {
+    const map = connectEmbeddedMap(iframe, { origin: ORIGIN })
+    expect(postMessage).toHaveBeenCalledWith(wrapEmbedMessage({ type: 'hello' }), ORIGIN)
+
+    iframe.dispatchEvent(new Event('load'))
+    expect(sentTypes()).toEqual(['hello', 'hello'])
+    map.disconnect()
+  })
+
+  it('queues commands until the map is ready', () => {
+    const map = connectEmbeddedMap(iframe, { origin: ORIGIN })
+    const onReady = vi.fn()
+    map.on('ready', onReady)
+
+    map.setRegion('alaska')
+    expect(sentTypes()).toEqual(['hello'])
+
+    fromMap(READY)
+    expect(onReady).toHaveBeenCalledTimes(1)
+    expect(sentTypes()).toEqual(['hello', 'setRegion'])
+
+    map.select(['08031'])
+    expect(sentTypes()).toEqual(['hello', 'setRegion', 'select'])
+    map.disconnect()
+  })
+
+  it('ignores events from other origins', () => {
+    const map = connectEmbeddedMap(iframe, { origin: 'https://other.example' })
+    map.setRegion('alaska')
+
+    fromMap(READY)
+    expect(sentTypes()).toEqual(['hello'])
+    map.disconnect()
+  })
+})
@@ -0,0 +1,103 @@
+import {
+  isEmbedEvent,
+  wrapEmbedMessage,
+  type EmbedCommand,
+  type EmbedEvent,
+  type EmbedFilters,
+} from './embedProtocol'
+import type { Region } from './Map'
+import type { PaletteId, ThemeMode } from './themes'
+
+export type { EmbedCommand, EmbedEvent, EmbedFilters } from './embedProtocol'
+
+type EmbedEventType = EmbedEvent['type']
+type EmbedEventOf<T extends EmbedEventType> = Extract<EmbedEvent, { type: T }>
+
+export interface EmbeddedMap {
+  /** Subscribe to an event; returns an unsubscribe function */
+  on<T extends EmbedEventType>(type: T, handler: (event: EmbedEventOf<T>) => void): () => void
+  setFilters(filters: Partial<EmbedFilters>): void
+  select(ids: string[], options?: { mode?: 'replace' | 'add'; focus?: boolean }): void
+  setRegion(region: Region): void
+  setTheme(theme: { theme?: ThemeMode; palette?: PaletteId }): void
+  /** Stop listening for events */
+  disconnect(): void
+}
+
+export interface ConnectOptions {
+  /** Origin of the embedded map; defaults to the iframe's src origin */
+  origin?: string
+}
+
+/**
+ * Host-page helper for the embedded map. Commands sent before the map
+ * reports `ready` are queued and delivered once it does. The map sends
+ * `ready` when it loads; in case that happened before connecting, the
+ * helper also says `hello` (now and whenever the iframe loads) and the
+ * map answers with `ready`.
+ *
+ *   const map = connectEmbeddedMap(document.querySelector('iframe')!)
+ *   map.on('featureClick', (event) => console.log(event.records))
+ *   map.setFilters({ govType: 'County' })
+ */
+export function connectEmbeddedMap(iframe: HTMLIFrameElement, options: ConnectOptions = {}): EmbeddedMap {
+  const origin = options.origin ?? new URL(iframe.src, window.location.href).origin
+  const handlers = new Map<EmbedEventType, Set<(event: EmbedEvent) => void>>()
+  let ready = false
+  let queue: EmbedCommand[] = []
+
+  const send = (command: EmbedCommand) => {
+    if (!ready || !iframe.contentWindow) {
+      queue.push(command)
+      return
+    }
+    iframe.contentWindow.postMessage(wrapEmbedMessage(command), origin)
+  }
+
+  const handleMessage = (message: MessageEvent) => {
+    if (message.source !== iframe.contentWindow || message.origin !== origin) return
+    if (!isEmbedEvent(message.data)) return
+
+    const event: EmbedEvent = message.data
+    if (event.type === 'ready') {
+      ready = true
+      const pending = queue
+      queue = []
+      pending.forEach(send)
+    }
+    handlers.get(event.type)?.forEach((handler) => handler(event))
+  }
+
+  const sayHello = () => iframe.contentWindow?.postMessage(wrapEmbedMessage({ type: 'hello' }), origin)
+
+  window.addEventListener('message', handleMessage)
+  iframe.addEventListener('load', sayHello)
+  sayHello()
+
+  return {
+    on(type, handler) {
+      const set = handlers.get(type) ?? new Set()
+      set.add(handler as (event: EmbedEvent) => void)
+      handlers.set(type, set)
+      return () => set.delete(handler as (event: EmbedEvent) => void)
+    },
+    setFilters(filters) {
+      send({ type: 'setFilters', filters })
+    },
+    select(ids, selectOptions = {}) {
+      send({ type: 'select', ids, ...selectOptions })
+    },
+    setRegion(region) {
+      send({ type: 'setRegion', region })
+    },
+    setTheme(theme) {
+      send({ type: 'setTheme', ...theme })
+    },
+    disconnect() {
+      window.removeEventListener('message', handleMessage)
+      iframe.removeEventListener('load', sayHello)
+      handlers.clear()
+      queue = []
+    },
+  }
+}
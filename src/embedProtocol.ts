@@ -0,0 +1,141 @@
+import type { DashboardRecord } from './dataLoader'
+import { isGovernmentTypeFilter, type GovernmentTypeFilter } from './filters'
+import type { Region } from './Map'
+import { isPaletteId, isThemeMode, type PaletteId, type ThemeMode } from './themes'
+import { REGIONS } from './urlState'
+
+/**
+ * postMessage protocol between the embedded map (iframe) and its host page.
+ * Shared by the app (embedBridge.ts) and the host helper (embedHost.ts);
+ * only types and guards live here so the helper stays dependency-free.
+ * Messages come from another window, so both sides check them with the
+ * guards below before trusting any field.
+ *
+ * Every message is an object tagged with `source` and `version` so hosts and
+ * the iframe can ignore unrelated postMessage traffic.
+ */
+export const EMBED_MESSAGE_SOURCE = 'open-data-dashboard-map'
+export const EMBED_PROTOCOL_VERSION = 1
+
+export interface EmbedFilters {
+  govType: GovernmentTypeFilter
+  /** Population bucket ids (see populationBuckets.json) */
+  popSizes: string[]
+  /** Platform id (see platformRules.json); '' means any */
+  platform: string
+  /** Hide portals whose last link check failed */
+  hideBroken: boolean
+}
+
+/** Events sent from the iframe to the host page */
+export type EmbedEvent =
+  /** Sent once the map has loaded, and again in answer to `hello` */
+  | { type: 'ready'; filters: EmbedFilters; selected: string[]; region: Region }
+  | { type: 'featureClick'; geoid: string; name: string; records: DashboardRecord[] }
+  | { type: 'selectionChange'; selected: string[]; records: DashboardRecord[] }
+  | { type: 'filtersChange'; filters: EmbedFilters; records: DashboardRecord[] }
+
+/** Commands sent from the host page to the iframe */
+export type EmbedCommand =
+  /** Asks a map that has already loaded to send `ready` again */
+  | { type: 'hello' }
+  | { type: 'setFilters'; filters: Partial<EmbedFilters> }
+  /** Replace (default) or add to the selection; `focus` flies the map to a single id */
+  | { type: 'select'; ids: string[]; mode?: 'replace' | 'add'; focus?: boolean }
+  | { type: 'setRegion'; region: Region }
+  /** Appearance ('auto' follows the system setting) and/or map palette */
+  | { type: 'setTheme'; theme?: ThemeMode; palette?: PaletteId }
+
+export type EmbedMessage<T extends { type: string }> = T & {
+  source: typeof EMBED_MESSAGE_SOURCE
+  version: typeof EMBED_PROTOCOL_VERSION
+}
+
+export function wrapEmbedMessage<T extends { type: string }>(payload: T): EmbedMessage<T> {
+  return { ...payload, source: EMBED_MESSAGE_SOURCE, version: EMBED_PROTOCOL_VERSION }
+}
+
+export function isEmbedMessage(data: unknown): data is EmbedMessage<{ type: string }> {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { source?: unknown }).source === EMBED_MESSAGE_SOURCE &&
+    typeof (data as { type?: unknown }).type === 'string'
+  )
+}
+
+type MessageFields = Record<string, unknown>
+
+function isObject(value: unknown): value is MessageFields {
+  return typeof value === 'object' && value !== null
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isOptional(value: unknown, check: (value: unknown) => boolean): boolean {
+  return value === undefined || check(value)
+}
+
+function isRegion(value: unknown): value is Region {
+  return typeof value === 'string' && (REGIONS as string[]).includes(value)
+}
+
+// With `partial`, fields may be left out (setFilters only changes the ones it names)
+function isEmbedFilters(value: unknown, partial: boolean): boolean {
+  if (!isObject(value)) return false
+  const checks: Record<keyof EmbedFilters, (field: unknown) => boolean> = {
+    govType: (field) => typeof field === 'string' && isGovernmentTypeFilter(field),
+    popSizes: isStringArray,
+    platform: (field) => typeof field === 'string',
+    hideBroken: (field) => typeof field === 'boolean',
+  }
+  return Object.entries(checks).every(([key, check]) => (partial ? isOptional(value[key], check) : check(value[key])))
+}
+
+// Records are the app's own DashboardRecords; check they are objects with an ID
+function isRecordList(value: unknown): boolean {
+  return Array.isArray(value) && value.every((record) => isObject(record) && typeof record.jurisdictionId === 'string')
+}
+
+type PayloadGuards<T extends { type: string }> = { [K in T['type']]: (message: MessageFields) => boolean }
+
+// Payload checks per command; the keys are also the command types the app accepts
+const COMMAND_GUARDS: PayloadGuards<EmbedCommand> = {
+  hello: () => true,
+  setFilters: (message) => isEmbedFilters(message.filters, true),
+  select: (message) =>
+    isStringArray(message.ids) &&
+    isOptional(message.mode, (mode) => mode === 'replace' || mode === 'add') &&
+    isOptional(message.focus, (focus) => typeof focus === 'boolean'),
+  setRegion: (message) => isRegion(message.region),
+  setTheme: (message) =>
+    isOptional(message.theme, (theme) => typeof theme === 'string' && isThemeMode(theme)) &&
+    isOptional(message.palette, (palette) => typeof palette === 'string' && isPaletteId(palette)),
+}
+
+const EVENT_GUARDS: PayloadGuards<EmbedEvent> = {
+  ready: (message) => isEmbedFilters(message.filters, false) && isStringArray(message.selected) && isRegion(message.region),
+  featureClick: (message) =>
+    typeof message.geoid === 'string' && typeof message.name === 'string' && isRecordList(message.records),
+  selectionChange: (message) => isStringArray(message.selected) && isRecordList(message.records),
+  filtersChange: (message) => isEmbedFilters(message.filters, false) && isRecordList(message.records),
+}
+
+export const EMBED_COMMAND_TYPES = Object.keys(COMMAND_GUARDS) as EmbedCommand['type'][]
+
+function matchesGuards<T extends { type: string }>(data: unknown, guards: PayloadGuards<T>): boolean {
+  if (!isEmbedMessage(data) || !Object.hasOwn(guards, data.type)) return false
+  return guards[data.type as T['type']](data as MessageFields)
+}
+
+/** A well-formed command from the host page */
+export function isEmbedCommand(data: unknown): data is EmbedMessage<EmbedCommand> {
+  return matchesGuards(data, COMMAND_GUARDS)
+}
+
+/** A well-formed event from the embedded map */
+export function isEmbedEvent(data: unknown): data is EmbedMessage<EmbedEvent> {
+  return matchesGuards(data, EVENT_GUARDS)
+}
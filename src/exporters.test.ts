@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsvRows } from './dataSources'
+import { toCsv, type ExportMetadata } from './exporters'
+import { record } from './testFixtures'
+
+const META: ExportMetadata = {
+  generatedAt: '2026-10-01T12:00:00.000Z',
+  exportedAt: '2026-10-19T08:30:00.000Z',
+  sourceUrl: 'https://example.gov/portals.csv',
+  scope: 'filtered',
+  filters: { govType: 'County', popSizes: ['over-1m'], platform: '', hideBroken: false },
+  recordCount: 1,
+}
+
+const dallasCounty = record({
+  Jurisdiction: 'Dallas County, TX',
+  'Jurisdiction ID': '48113',
+  URL: 'https://www.dallascounty.org/',
+  'Government Type': 'County',
+})
+
+describe('toCsv', () => {
+  it('leads with the metadata as # comment lines', () => {
+    const lines = toCsv([dallasCounty], META).split(/\r?\n/)
+
+    expect(lines.slice(0, 6)).toEqual([
+      '# generatedAt: 2026-10-01T12:00:00.000Z',
+      '# exportedAt: 2026-10-19T08:30:00.000Z',
+      '# sourceUrl: https://example.gov/portals.csv',
+      '# scope: filtered',
+      '# filters: {"govType":"County","popSizes":["over-1m"],"platform":"","hideBroken":false}',
+      '# recordCount: 1',
+    ])
+  })
+
+  it('writes only the sheet columns, and loads back in as sheet rows', () => {
+    const csv = toCsv([dallasCounty], META)
+
+    expect(csv.split(/\r?\n/)[6]).toBe('Jurisdiction,Jurisdiction ID,URL,Population Size,Government Type,Notes,Latitude,Longitude')
+    expect(parseCsvRows(csv)).toEqual([expect.objectContaining({
+      Jurisdiction: 'Dallas County, TX',
+      'Jurisdiction ID': '48113',
+      'Government Type': 'County',
+    })])
+  })
+})
@@ -0,0 +1,131 @@
+import Papa from 'papaparse'
+import type { Feature, FeatureCollection, Geometry } from 'geojson'
+import type { CsvRowRaw, DashboardRecord } from './dataLoader'
+import type { GovernmentTypeFilter } from './filters'
+
+export type ExportFormat = 'csv' | 'json' | 'geojson'
+export type ExportScope = 'selected' | 'filtered'
+
+export interface ExportMetadata {
+  /** When the portal snapshot was generated, or loaded for other data sources */
+  generatedAt: string
+  exportedAt: string
+  sourceUrl: string
+  scope: ExportScope
+  filters: { govType: GovernmentTypeFilter; popSizes: string[]; platform: string; hideBroken: boolean }
+  recordCount: number
+}
+
+// Original sheet column order
+const CSV_HEADERS: Array<keyof CsvRowRaw> = [
+  'Jurisdiction',
+  'Jurisdiction ID',
+  'URL',
+  'Population Size',
+  'Government Type',
+  'Notes',
+  'Latitude',
+  'Longitude',
+]
+
+function toCsvRow(record: DashboardRecord): CsvRowRaw {
+  return {
+    Jurisdiction: record.jurisdiction,
+    'Jurisdiction ID': record.jurisdictionId,
+    URL: record.url,
+    'Population Size': record.populationSize,
+    'Government Type': record.governmentTypeRaw,
+    Notes: record.notes,
+    Latitude: record.latitude ?? '',
+    Longitude: record.longitude ?? '',
+  }
+}
+
+/**
+ * CSV with the sheet's headers. Metadata goes in leading `#` comment lines,
+ * as in the coverage gap export, which Papa Parse skips with `comments: '#'`.
+ */
+export function toCsv(records: DashboardRecord[], meta: ExportMetadata): string {
+  const comments = Object.entries(meta).map(([key, value]) =>
+    `# ${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`
+  )
+  const body = Papa.unparse(records.map(toCsvRow), { columns: CSV_HEADERS })
+  return `${comments.join('\n')}\n${body}\n`
+}
+
+export function toJson(records: DashboardRecord[], meta: ExportMetadata): string {
+  return JSON.stringify({ metadata: meta, records }, null, 2)
+}
+
+/**
+ * GeoJSON with points for cities and other point kinds, and state and
+ * county polygons joined by GEOID (including the county + '00' form used by
+ * unified city-counties). Records without geometry are kept with a null
+ * geometry, which GeoJSON allows for unlocated features. Metadata is a
+ * foreign member.
+ */
+export function toGeoJson(
+  records: DashboardRecord[],
+  meta: ExportMetadata,
+  countyGeometry: FeatureCollection | null,
+  stateGeometry: FeatureCollection | null = null
+): string {
+  const countiesById = new Map<string, Geometry>()
+  countyGeometry?.features.forEach((feature) => {
+    countiesById.set(String(feature.id).padStart(5, '0'), feature.geometry)
+  })
+  const statesById = new Map<string, Geometry>()
+  stateGeometry?.features.forEach((feature) => {
+    statesById.set(String(feature.id).padStart(2, '0'), feature.geometry)
+  })
+
+  const features: Array<Feature<Geometry | null>> = records.map((record) => {
+    let geometry: Geometry | null = null
+    const hasCoords = Number.isFinite(record.latitude) && Number.isFinite(record.longitude)
+
+    if (record.kind === 'state') {
+      geometry = statesById.get(record.jurisdictionId) ?? null
+    } else if (record.kind === 'county') {
+      geometry = countiesById.get(record.jurisdictionId) ?? null
+    } else if (hasCoords) {
+      geometry = { type: 'Point', coordinates: [record.longitude!, record.latitude!] }
+    } else if (record.isUnified && record.jurisdictionId.endsWith('00')) {
+      geometry = countiesById.get(record.jurisdictionId.slice(0, 5)) ?? null
+    }
+
+    return {
+      type: 'Feature',
+      id: record.jurisdictionId,
+      properties: { ...record },
+      geometry,
+    }
+  })
+
+  return JSON.stringify({ type: 'FeatureCollection', metadata: meta, features })
+}
+
+export function exportFileName(scope: ExportScope, format: ExportFormat, date = new Date()): string {
+  const stamp = date.toISOString().slice(0, 10)
+  return `open-data-portals-${scope}-${stamp}.${format}`
+}
+
+// Some browsers start reading the blob after click() returns
+const REVOKE_URL_DELAY_MS = 40_000
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  geojson: 'application/geo+json',
+}
+
+export function downloadFile(fileName: string, content: string, format: ExportFormat): void {
+  const blob = new Blob([content], { type: MIME_TYPES[format] })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  window.setTimeout(() => URL.revokeObjectURL(url), REVOKE_URL_DELAY_MS)
+}
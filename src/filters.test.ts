@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { getFilterRejection, isGovernmentTypeFilter, matchesFilters, type DashboardFilters } from './filters'
+import type { DashboardRecord } from './dataLoader'
+import { loadedRecord } from './testFixtures'
+
+const ANY: DashboardFilters = { govType: '', popSizes: new Set(), platform: '', hideBroken: false }
+
+const dallas = loadedRecord({
+  Jurisdiction: 'Dallas, TX',
+  'Jurisdiction ID': '4819000',
+  URL: 'https://www.dallasopendata.com/',
+  'Population Size': 'Population exceeding 1 million',
+})
+const dallasCounty = loadedRecord({
+  Jurisdiction: 'Dallas County, TX',
+  'Jurisdiction ID': '48113',
+  URL: 'https://dallascounty-tx.hub.arcgis.com/',
+  'Government Type': 'County',
+})
+const denver = loadedRecord({ Jurisdiction: 'Denver, CO', 'Jurisdiction ID': '0820000', 'Government Type': 'City, County' })
+const transit = loadedRecord({ Jurisdiction: 'DART', 'Jurisdiction ID': 'dart', 'Government Type': 'Other Public Agency' })
+
+describe('getFilterRejection', () => {
+  it('passes every record without filters', () => {
+    expect([dallas, dallasCounty, denver, transit].map((row) => getFilterRejection(row, ANY))).toEqual([null, null, null, null])
+  })
+
+  it.each<[DashboardFilters['govType'], string[]]>([
+    ['City', ['Dallas, TX', 'Denver, CO']],
+    ['County', ['Dallas County, TX', 'Denver, CO']],
+    ['Other Public Agency', ['DART']],
+  ])('keeps %s records, with unified city-counties as both cities and counties', (govType, expected) => {
+    const kept = [dallas, dallasCounty, denver, transit].filter((row) => matchesFilters(row, { ...ANY, govType }))
+    expect(kept.map((row) => row.jurisdiction)).toEqual(expected)
+  })
+
+  it('describes the first filter a record fails', () => {
+    expect(getFilterRejection(dallasCounty, { ...ANY, govType: 'City' })).toBe('Government type is not City')
+    expect(getFilterRejection(transit, { ...ANY, govType: 'County' })).toBe('Government type is not County')
+    expect(getFilterRejection(denver, { ...ANY, govType: 'Other Public Agency' })).toBe('Government type is City or County')
+    expect(getFilterRejection(dallas, { ...ANY, govType: 'County', platform: 'socrata' })).toBe('Government type is not County')
+  })
+
+  it('rejects records outside the selected population buckets', () => {
+    expect(getFilterRejection(dallas, { ...ANY, popSizes: new Set(['over-1m']) })).toBeNull()
+    expect(getFilterRejection(dallas, { ...ANY, popSizes: new Set(['under-50k']) }))
+      .toBe('Population bucket "over-1m" not selected')
+    expect(getFilterRejection(transit, { ...ANY, popSizes: new Set(['under-50k']) }))
+      .toBe('Population bucket (unknown) not selected')
+  })
+
+  it('rejects other platforms', () => {
+    expect(getFilterRejection(dallasCounty, { ...ANY, platform: 'arcgis-hub' })).toBeNull()
+    expect(getFilterRejection(dallas, { ...ANY, platform: 'arcgis-hub' })).toBe(`Platform "${dallas.platform}" not selected`)
+  })
+
+  it('rejects broken portals only when asked to', () => {
+    const broken: DashboardRecord = {
+      ...dallas,
+      health: { status: 'broken', httpStatus: 404, finalUrl: dallas.url, checkedAt: '2026-10-19T00:00:00.000Z' },
+    }
+    expect(getFilterRejection(broken, ANY)).toBeNull()
+    expect(getFilterRejection(broken, { ...ANY, hideBroken: true })).toBe('Portal link is broken')
+    expect(getFilterRejection(dallas, { ...ANY, hideBroken: true })).toBeNull()
+  })
+})
+
+describe('isGovernmentTypeFilter', () => {
+  it('accepts the filter values and any', () => {
+    expect(['', 'City', 'County', 'Other Public Agency', 'Township'].map(isGovernmentTypeFilter))
+      .toEqual([true, true, true, true, false])
+  })
+})
@@ -0,0 +1,48 @@
+import type { DashboardRecord } from './dataLoader'
+
+export type GovernmentTypeFilter = '' | 'City' | 'County' | 'Other Public Agency'
+
+export const GOVERNMENT_TYPE_FILTERS: GovernmentTypeFilter[] = ['City', 'County', 'Other Public Agency']
+
+export interface DashboardFilters {
+  govType: GovernmentTypeFilter
+  /** Population bucket ids (see populationBuckets.ts); empty means any */
+  popSizes: Set<string>
+  /** Platform id (see platforms.ts); '' means any */
+  platform: string
+  /** Drop records whose last link check failed */
+  hideBroken: boolean
+}
+
+export function isGovernmentTypeFilter(value: string): value is GovernmentTypeFilter {
+  return value === '' || (GOVERNMENT_TYPE_FILTERS as string[]).includes(value)
+}
+
+/**
+ * The first filter a record fails, described for diagnostics, or null when it passes.
+ */
+export function getFilterRejection(row: DashboardRecord, filters: DashboardFilters): string | null {
+  const { govType, popSizes, platform, hideBroken } = filters
+
+  if (govType) {
+    const isCity = row.kind === 'place'
+    const isCounty = row.kind === 'county' || row.isUnified
+    if (govType === 'City' && !isCity) return 'Government type is not City'
+    if (govType === 'County' && !isCounty) return 'Government type is not County'
+    if (govType === 'Other Public Agency' && (isCity || isCounty)) return 'Government type is City or County'
+  }
+
+  if (popSizes.size > 0 && !popSizes.has(row.populationBucket)) {
+    return `Population bucket ${row.populationBucket ? `"${row.populationBucket}"` : '(unknown)'} not selected`
+  }
+
+  if (platform && row.platform !== platform) return `Platform "${row.platform}" not selected`
+
+  if (hideBroken && row.health?.status === 'broken') return 'Portal link is broken'
+
+  return null
+}
+
+export function matchesFilters(row: DashboardRecord, filters: DashboardFilters): boolean {
+  return getFilterRejection(row, filters) === null
+}
@@ -0,0 +1,19 @@
+import type { CatalogStats } from './dataLoader'
+
+/**
+ * Display formatting shared by the details panel and the comparison view.
+ */
+export function formatPopulation(value: number): string {
+  return value.toLocaleString('en-US')
+}
+
+export function formatGrowth(value: number): string {
+  const percent = (value * 100).toFixed(1)
+  return value >= 0 ? `+${percent}%` : `${percent}%`
+}
+
+export function formatCatalogSummary(catalog: CatalogStats): string {
+  const count = catalog.datasetCount ?? 0
+  const datasets = `${count.toLocaleString('en-US')} dataset${count === 1 ? '' : 's'}`
+  return catalog.lastUpdated ? `${datasets}, most recent update ${catalog.lastUpdated}` : datasets
+}
@@ -0,0 +1,59 @@
+import { feature } from 'topojson-client'
+import type { GeometryCollection, Topology } from 'topojson-specification'
+import type { FeatureCollection } from 'geojson'
+import geometryMeta from './data/counties.geometry.meta.json'
+import statesMeta from './data/states.geometry.meta.json'
+
+export interface GeometryMeta {
+  generatedAt: string
+  source: string
+  simplifyQuantile: number
+  featureCount: number
+  bytes: number
+  sha256: string
+}
+
+type CountiesTopology = Topology<{ counties: GeometryCollection<{ name: string }> }>
+type StatesTopology = Topology<{ states: GeometryCollection<{ name: string }> }>
+
+/**
+ * URL of the bundled county TopoJSON, generated by `npm run snapshot:geometry`.
+ * The content hash is appended so browsers and CDNs refetch it only when it changes.
+ */
+function countiesAssetUrl(): string {
+  const version = geometryMeta.sha256.slice(0, 12)
+  return `${import.meta.env.BASE_URL}data/counties.topo.json?v=${version}`
+}
+
+/**
+ * Load the bundled county geometry and convert it to GeoJSON.
+ * Feature ids are 5-digit county GEOIDs (e.g., "08031").
+ */
+export async function loadCountyGeometry(): Promise<FeatureCollection> {
+  const response = await fetch(countiesAssetUrl())
+  if (!response.ok) {
+    throw new Error(`Failed to load county geometry: ${response.status} ${response.statusText}`)
+  }
+
+  const topology: CountiesTopology = await response.json()
+  return feature(topology, topology.objects.counties)
+}
+
+/**
+ * Load the bundled state outlines, generated with the counties by
+ * `npm run snapshot:geometry`. Feature ids are 2-digit state FIPS codes.
+ */
+export async function loadStateGeometry(): Promise<FeatureCollection> {
+  const url = `${import.meta.env.BASE_URL}data/states.topo.json?v=${statesMeta.sha256.slice(0, 12)}`
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to load state geometry: ${response.status} ${response.statusText}`)
+  }
+
+  const topology: StatesTopology = await response.json()
+  return feature(topology, topology.objects.states)
+}
+
+export function getGeometryMeta(): GeometryMeta {
+  return geometryMeta as GeometryMeta
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import { getJurisdictionKind, getStateForId, padGeoid } from './jurisdictionKinds'
+
+describe('getJurisdictionKind', () => {
+  it('maps Government Type values to kinds', () => {
+    expect(getJurisdictionKind(['State'])).toBe('state')
+    expect(getJurisdictionKind(['County'])).toBe('county')
+    expect(getJurisdictionKind(['City'])).toBe('place')
+    expect(getJurisdictionKind(['Tribal Government'])).toBe('aiannh')
+    expect(getJurisdictionKind(['school district'])).toBe('school-district')
+  })
+
+  it('treats unified city-counties as places', () => {
+    expect(getJurisdictionKind(['City', 'County'])).toBe('place')
+  })
+
+  it('falls back to other public agency', () => {
+    expect(getJurisdictionKind([])).toBe('agency')
+    expect(getJurisdictionKind(['Transit Authority'])).toBe('agency')
+  })
+
+  it('prefers a valid explicit kind', () => {
+    expect(getJurisdictionKind(['Other Public Agency'], ' School-District ')).toBe('school-district')
+    expect(getJurisdictionKind(['County'], 'borough')).toBe('county')
+  })
+})
+
+describe('padGeoid', () => {
+  it('pads IDs to their scheme length', () => {
+    expect(padGeoid('8', 'state')).toBe('08')
+    expect(padGeoid('8031', 'county')).toBe('08031')
+    expect(padGeoid('820000', 'place')).toBe('0820000')
+    expect(padGeoid('430', 'aiannh')).toBe('0430')
+  })
+
+  it('leaves IDs without a fixed format alone', () => {
+    expect(padGeoid('MT-1', 'none')).toBe('MT-1')
+  })
+})
+
+describe('getStateForId', () => {
+  it('reads the state from state-prefixed schemes only', () => {
+    expect(getStateForId('4816230', 'school-district')?.abbr).toBe('TX')
+    expect(getStateForId('4800', 'aiannh')).toBeUndefined()
+  })
+})
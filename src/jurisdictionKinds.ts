@@ -0,0 +1,80 @@
+import kindConfig from './jurisdictionKinds.json'
+import { getStateForGeoid, type UsState } from './usStates'
+
+/**
+ * Jurisdiction kinds and their GEOID schemes, configured in
+ * jurisdictionKinds.json (also read by the snapshot validator). Kinds are
+ * checked in order and the first one listing one of a row's Government
+ * Type values wins, so "City, County" rows are places. Rows can name their
+ * kind explicitly in an optional "Jurisdiction Kind" column; anything else
+ * is an other public agency.
+ */
+export type JurisdictionKind = 'state' | 'place' | 'county' | 'aiannh' | 'school-district' | 'agency'
+
+export type GeoidScheme = 'state' | 'county' | 'place' | 'aiannh' | 'school-district' | 'none'
+
+export interface GeoidSchemeConfig {
+  id: GeoidScheme
+  label: string
+  /** ID length, null when the scheme has no fixed format */
+  digits: number | null
+  /** The first two digits are the state FIPS code */
+  statePrefix: boolean
+}
+
+export interface JurisdictionKindConfig {
+  id: JurisdictionKind
+  /** Plural label for the legend */
+  label: string
+  /** Singular label, e.g. for "1 county" */
+  singular: string
+  /** How the kind is drawn, for the legend */
+  legend: string
+  geoidScheme: GeoidScheme
+  /** Areas are drawn from bundled boundaries; points from the row's latitude/longitude */
+  shape: 'area' | 'point'
+  governmentTypes: string[]
+}
+
+export const GEOID_SCHEMES = kindConfig.schemes as GeoidSchemeConfig[]
+export const JURISDICTION_KINDS = kindConfig.kinds as JurisdictionKindConfig[]
+
+const FALLBACK_KIND: JurisdictionKind = 'agency'
+
+export function isJurisdictionKind(value: string): value is JurisdictionKind {
+  return JURISDICTION_KINDS.some((kind) => kind.id === value)
+}
+
+export function getKindConfig(kind: JurisdictionKind): JurisdictionKindConfig {
+  return JURISDICTION_KINDS.find((config) => config.id === kind)!
+}
+
+export function getSchemeConfig(scheme: GeoidScheme): GeoidSchemeConfig {
+  return GEOID_SCHEMES.find((config) => config.id === scheme)!
+}
+
+/**
+ * The kind for a row: its explicit kind when valid, otherwise the first
+ * configured kind listing one of its Government Type values.
+ */
+export function getJurisdictionKind(governmentTypes: string[], explicitKind = ''): JurisdictionKind {
+  const explicit = explicitKind.trim().toLowerCase()
+  if (isJurisdictionKind(explicit)) return explicit
+
+  const types = governmentTypes.map((type) => type.trim().toLowerCase())
+  const match = JURISDICTION_KINDS.find((kind) =>
+    kind.governmentTypes.some((type) => types.includes(type.toLowerCase()))
+  )
+  return match?.id ?? FALLBACK_KIND
+}
+
+/** Pad an ID with leading zeros to its scheme's length; IDs without a fixed format are left as is */
+export function padGeoid(id: string, scheme: GeoidScheme): string {
+  const { digits } = getSchemeConfig(scheme)
+  return digits === null ? id : id.padStart(digits, '0')
+}
+
+/** The state an ID belongs to, for schemes whose IDs start with the state FIPS code */
+export function getStateForId(id: string, scheme: GeoidScheme): UsState | undefined {
+  return getSchemeConfig(scheme).statePrefix ? getStateForGeoid(id) : undefined
+}
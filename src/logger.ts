@@ -0,0 +1,52 @@
+/**
+ * Leveled console logging. Production builds are silent unless the page is
+ * opened with ?debug=1; development builds log warnings and errors, and
+ * everything with ?debug=1.
+ *
+ *   const log = createLogger('map')
+ *   log.debug('County polygons matched:', 42)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+const LEVELS: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 }
+
+export function isDebugMode(search = typeof window === 'undefined' ? '' : window.location.search): boolean {
+  return new URLSearchParams(search).get('debug') === '1'
+}
+
+function defaultLevel(): LogLevel {
+  if (isDebugMode()) return 'debug'
+  return import.meta.env.PROD ? 'silent' : 'warn'
+}
+
+let currentLevel: LogLevel = defaultLevel()
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level
+}
+
+export function getLogLevel(): LogLevel {
+  return currentLevel
+}
+
+export interface Logger {
+  debug: (...args: unknown[]) => void
+  info: (...args: unknown[]) => void
+  warn: (...args: unknown[]) => void
+  error: (...args: unknown[]) => void
+}
+
+export function createLogger(scope: string): Logger {
+  const emit = (level: Exclude<LogLevel, 'silent'>, method: 'debug' | 'info' | 'warn' | 'error') =>
+    (...args: unknown[]) => {
+      if (LEVELS[level] < LEVELS[currentLevel]) return
+      console[method](`[${scope}]`, ...args)
+    }
+
+  return {
+    debug: emit('debug', 'debug'),
+    info: emit('info', 'info'),
+    warn: emit('warn', 'warn'),
+    error: emit('error', 'error'),
+  }
+}
@@ -3,10 +3,10 @@ import { createRoot } from 'react-dom/client'
 import '@trussworks/react-uswds/lib/uswds.css'
 import '@trussworks/react-uswds/lib/index.css'
 import './index.css'
-import App from './App.tsx'
+import { AppLoader } from './AppLoader.tsx'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <AppLoader />
   </StrictMode>,
 )
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { OTHER_GROUP, describeMapFeatures, groupByState, listMapFeatures } from './mapFeatureList'
+import { record } from './testFixtures'
+
+const geometry = { counties: new Set(['06037', '08031', '17031']), states: new Set(['06']) }
+
+const california = record({ Jurisdiction: 'California', 'Jurisdiction ID': '06', 'Government Type': 'State' })
+const losAngelesCounty = record({ Jurisdiction: 'Los Angeles County, CA', 'Jurisdiction ID': '06037', 'Government Type': 'County' })
+const cookCounty = record({ Jurisdiction: 'Cook County, IL', 'Jurisdiction ID': '17031', 'Government Type': 'County' })
+const chicago = record({ Jurisdiction: 'Chicago, IL', 'Jurisdiction ID': '1714000', Latitude: '41.88', Longitude: '-87.63' })
+const denver = record({ Jurisdiction: 'Denver, CO', 'Jurisdiction ID': '0803100', 'Government Type': 'City, County' })
+const noCoordinates = record({ Jurisdiction: 'Nowhere, IL', 'Jurisdiction ID': '1799999' })
+const agency = record({
+  Jurisdiction: 'Regional Transit',
+  'Jurisdiction ID': 'RTA',
+  'Government Type': 'Other Public Agency',
+  Latitude: '41.88',
+  Longitude: '-87.63',
+})
+
+describe('listMapFeatures', () => {
+  it('lists drawn jurisdictions once each, skipping those the map cannot draw', () => {
+    const unknownCounty = record({ Jurisdiction: 'Unknown County', 'Jurisdiction ID': '99999', 'Government Type': 'County' })
+    const items = listMapFeatures([california, cookCounty, chicago, chicago, noCoordinates, unknownCounty], geometry)
+
+    expect(items.map((item) => item.id)).toEqual(['06', '17031', '1714000'])
+    expect(items[2]).toMatchObject({ name: 'Chicago, IL', kind: 'place', state: 'Illinois' })
+  })
+
+  it('counts a unified city-county without coordinates through its county polygon', () => {
+    expect(listMapFeatures([denver], geometry).map((item) => item.id)).toEqual(['0803100'])
+  })
+})
+
+describe('groupByState', () => {
+  it('groups by state alphabetically, with jurisdictions outside any state last', () => {
+    const groups = groupByState(listMapFeatures([agency, cookCounty, chicago, losAngelesCounty], geometry))
+
+    expect(groups.map((group) => group.state)).toEqual(['California', 'Illinois', OTHER_GROUP])
+    expect(groups[1].items.map((item) => item.name)).toEqual(['Chicago, IL', 'Cook County, IL'])
+  })
+})
+
+describe('describeMapFeatures', () => {
+  it('counts each kind, areas first', () => {
+    const items = listMapFeatures([chicago, cookCounty, losAngelesCounty, agency], geometry)
+    expect(describeMapFeatures(items)).toBe('Showing 2 counties, 1 city and 1 other public agency')
+  })
+
+  it('says when nothing is shown', () => {
+    expect(describeMapFeatures([])).toBe('No jurisdictions are shown on the map')
+  })
+})
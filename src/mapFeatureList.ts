@@ -0,0 +1,100 @@
+import type { DashboardRecord } from './dataLoader'
+import { JURISDICTION_KINDS, getStateForId, type JurisdictionKind } from './jurisdictionKinds'
+import { hasCoordinates } from './mapJoin'
+
+/**
+ * A text alternative to the map: the jurisdictions USMap actually draws,
+ * grouped by state, and a one-line summary for the live region.
+ */
+export interface MapListItem {
+  id: string
+  name: string
+  kind: JurisdictionKind
+  governmentType: string
+  /** State name, '' when the ID doesn't encode a state */
+  state: string
+}
+
+export interface MapListGroup {
+  /** State name, or OTHER_GROUP */
+  state: string
+  items: MapListItem[]
+}
+
+export const OTHER_GROUP = 'Other or multi-state'
+
+/** Element id of the list, for the map's skip link */
+export const MAP_LIST_ID = 'map-feature-list'
+
+/** Boundaries USMap has loaded, by GEOID */
+export interface MapGeometryIds {
+  counties: Set<string>
+  states: Set<string>
+}
+
+// Whether USMap draws the record: areas need a bundled boundary, points need coordinates
+function isDrawn(record: DashboardRecord, geometry: MapGeometryIds): boolean {
+  const id = record.jurisdictionId
+  switch (record.kind) {
+    case 'state':
+      return geometry.states.has(id)
+    case 'county':
+      return geometry.counties.has(id)
+    case 'place':
+      // Unified city-counties are also drawn as their county
+      return hasCoordinates(record) || (record.isUnified && id.endsWith('00') && geometry.counties.has(id.slice(0, 5)))
+    default:
+      return hasCoordinates(record)
+  }
+}
+
+/** One item per drawn jurisdiction, in record order */
+export function listMapFeatures(records: DashboardRecord[], geometry: MapGeometryIds): MapListItem[] {
+  const items = new Map<string, MapListItem>()
+  records.forEach((record) => {
+    if (items.has(record.jurisdictionId) || !isDrawn(record, geometry)) return
+    items.set(record.jurisdictionId, {
+      id: record.jurisdictionId,
+      name: record.jurisdiction,
+      kind: record.kind,
+      governmentType: record.displayGovernmentType,
+      state: getStateForId(record.jurisdictionId, record.geoidScheme)?.name ?? '',
+    })
+  })
+  return Array.from(items.values())
+}
+
+/** Items grouped by state (alphabetical, OTHER_GROUP last), sorted by name within each state */
+export function groupByState(items: MapListItem[]): MapListGroup[] {
+  const groups = new Map<string, MapListItem[]>()
+  items.forEach((item) => {
+    const state = item.state || OTHER_GROUP
+    groups.set(state, [...(groups.get(state) ?? []), item])
+  })
+  return Array.from(groups, ([state, groupItems]) => ({
+    state,
+    items: [...groupItems].sort((a, b) => a.name.localeCompare(b.name)),
+  })).sort((a, b) =>
+    a.state === OTHER_GROUP ? 1 : b.state === OTHER_GROUP ? -1 : a.state.localeCompare(b.state)
+  )
+}
+
+/** Counts per kind, e.g. "Showing 42 counties and 87 cities" (areas first, like the legend) */
+export function describeMapFeatures(items: MapListItem[]): string {
+  const counts = new Map<JurisdictionKind, number>()
+  items.forEach((item) => counts.set(item.kind, (counts.get(item.kind) ?? 0) + 1))
+
+  const parts = [
+    ...JURISDICTION_KINDS.filter((kind) => kind.shape === 'area'),
+    ...JURISDICTION_KINDS.filter((kind) => kind.shape === 'point'),
+  ]
+    .filter((kind) => counts.has(kind.id))
+    .map((kind) => {
+      const count = counts.get(kind.id)!
+      return `${count.toLocaleString('en-US')} ${(count === 1 ? kind.singular : kind.label).toLowerCase()}`
+    })
+
+  if (parts.length === 0) return 'No jurisdictions are shown on the map'
+  const list = parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+  return `Showing ${list}`
+}
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createCityFeatures, createPointFeatures, getCountyJoinIds, matchCountyId } from './mapJoin'
+import { record } from './testFixtures'
+
+describe('matchCountyId', () => {
+  it('matches a county by its 5-digit GEOID', () => {
+    expect(matchCountyId('48113', new Set(['48113']))).toBe('48113')
+  })
+
+  it('falls back to the unified city-county form (GEOID + 00)', () => {
+    expect(matchCountyId('08031', new Set(['0803100']))).toBe('0803100')
+  })
+
+  it('prefers the direct county match over the unified form', () => {
+    expect(matchCountyId('08031', new Set(['08031', '0803100']))).toBe('08031')
+  })
+
+  it('returns null when the county has no dashboard', () => {
+    expect(matchCountyId('06037', new Set(['48113', '0644000']))).toBeNull()
+  })
+
+  it('does not treat a place GEOID as encoding its county', () => {
+    // Dallas city (4819000) is a place in Dallas County (48113), not county 48190
+    expect(matchCountyId('48113', new Set(['4819000']))).toBeNull()
+  })
+})
+
+describe('getCountyJoinIds', () => {
+  it('keeps counties and unified city-counties only', () => {
+    const ids = getCountyJoinIds([
+      record({ 'Jurisdiction ID': '48113', 'Government Type': 'County' }),
+      record({ 'Jurisdiction ID': '0820000', 'Government Type': 'City, County' }),
+      record({ 'Jurisdiction ID': '4805000', 'Government Type': 'City' }),
+      record({ 'Jurisdiction ID': '4816200', 'Government Type': 'School District' }),
+    ])
+    expect(ids).toEqual(new Set(['48113', '0820000']))
+  })
+
+  it('does not shade a county for a city or school district ID ending in 00', () => {
+    const ids = getCountyJoinIds([
+      record({ 'Jurisdiction ID': '4805000', 'Government Type': 'City' }),
+      record({ 'Jurisdiction ID': '4816200', 'Government Type': 'School District' }),
+    ])
+    expect(matchCountyId('48050', ids)).toBeNull()
+    expect(matchCountyId('48162', ids)).toBeNull()
+  })
+})
+
+describe('createCityFeatures', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  const dallasCity = record({
+    Jurisdiction: 'Dallas, TX',
+    'Jurisdiction ID': '4819000',
+    Latitude: '32.7767',
+    Longitude: '-96.797',
+  })
+  const dallasCounty = record({
+    Jurisdiction: 'Dallas County, TX',
+    'Jurisdiction ID': '48113',
+    'Government Type': 'County',
+    Latitude: '32.77',
+    Longitude: '-96.78',
+  })
+  const denver = record({
+    Jurisdiction: 'Denver, CO',
+    'Jurisdiction ID': '820000',
+    'Government Type': 'City, County',
+    Latitude: '39.7392',
+    Longitude: '-104.9903',
+  })
+  const noCoords = record({ Jurisdiction: 'Nowhere, KS', 'Jurisdiction ID': '2099999' })
+
+  it('creates a point for each city with coordinates, as [lng, lat]', () => {
+    const { features } = createCityFeatures([dallasCity])
+    expect(features).toHaveLength(1)
+    expect(features[0].id).toBe('4819000')
+    expect(features[0].geometry.coordinates).toEqual([-96.797, 32.7767])
+    expect(features[0].properties).toMatchObject({ name: 'Dallas, TX', CSV_ID: '4819000', isCity: true })
+  })
+
+  it('includes unified city-counties and skips county-only records', () => {
+    const { features } = createCityFeatures([dallasCity, dallasCounty, denver])
+    expect(features.map((feature) => feature.id)).toEqual(['4819000', '0820000'])
+  })
+
+  it('keeps cities that share a name (records are keyed by ID, not name)', () => {
+    const springfieldIl = record({ Jurisdiction: 'Springfield', 'Jurisdiction ID': '1772000', Latitude: '39.78', Longitude: '-89.65' })
+    const springfieldMo = record({ Jurisdiction: 'Springfield', 'Jurisdiction ID': '2970000', Latitude: '37.21', Longitude: '-93.29' })
+    const { features } = createCityFeatures([springfieldIl, springfieldMo])
+    expect(features.map((feature) => feature.id)).toEqual(['1772000', '2970000'])
+  })
+
+  it('reports cities without coordinates instead of placing them', () => {
+    const { features, missingCoordinates } = createCityFeatures([dallasCity, noCoords])
+    expect(features).toHaveLength(1)
+    expect(missingCoordinates).toEqual([noCoords])
+  })
+})
+
+describe('createPointFeatures', () => {
+  it('creates points for one kind only', () => {
+    const tribe = record({ Jurisdiction: 'Navajo Nation', 'Jurisdiction ID': '2430', 'Government Type': 'Tribal Government', Latitude: '35.67', Longitude: '-109.05' })
+    const agency = record({ Jurisdiction: 'Metro Transit', 'Jurisdiction ID': 'MT-1', 'Government Type': 'Other Public Agency', Latitude: '44.97', Longitude: '-93.26' })
+    const city = record({ 'Jurisdiction ID': '4819000', Latitude: '32.77', Longitude: '-96.79' })
+
+    const { features } = createPointFeatures([tribe, agency, city], 'aiannh')
+    expect(features.map((feature) => feature.id)).toEqual(['2430'])
+    expect(features[0].properties).toMatchObject({ kind: 'aiannh', isCity: false })
+  })
+})
@@ -0,0 +1,92 @@
+import type { Feature, Point } from 'geojson'
+import type { DashboardRecord } from './dataLoader'
+import type { JurisdictionKind } from './jurisdictionKinds'
+
+/**
+ * Pure join logic behind the map: which dashboard ID a county polygon
+ * represents, and which records become city and other point markers.
+ */
+
+/**
+ * IDs that can shade a county polygon: counties, and unified city-counties
+ * through their county GEOID + '00' form. Other 7-digit IDs (cities, school
+ * districts) never match a county, even when they end in '00'.
+ */
+export function getCountyJoinIds(records: DashboardRecord[]): Set<string> {
+  return new Set(
+    records
+      .filter((record) => record.kind === 'county' || (record.kind === 'place' && record.isUnified))
+      .map((record) => record.jurisdictionId)
+  )
+}
+
+/**
+ * Resolve the dashboard ID a county polygon represents, if any.
+ * Returns the direct 5-digit county match first, then the 7-digit
+ * unified city-county form (county GEOID + '00').
+ */
+export function matchCountyId(countyId: string, hasDataIds: Set<string>): string | null {
+  if (hasDataIds.has(countyId)) return countyId
+
+  // Also check if this county has a unified city-county with a 7-digit ID
+  // For example, Denver County (08020) should match Denver city (0820000)
+  const cityStyleId = countyId + '00' // Convert 5-digit county to 7-digit city format
+  if (hasDataIds.has(cityStyleId)) return cityStyleId
+
+  return null
+}
+
+export interface PointMarkers {
+  features: Array<Feature<Point>>
+  /** Records of the kind that could not be placed because they have no coordinates */
+  missingCoordinates: DashboardRecord[]
+}
+
+/**
+ * One point feature per city record (including unified city-counties) with
+ * coordinates. Place GEOIDs don't encode a county, so cities are placed only
+ * by their own latitude/longitude.
+ */
+export function createCityFeatures(records: DashboardRecord[]): PointMarkers {
+  return createPointFeatures(records, 'place')
+}
+
+/** Whether the record has a usable latitude/longitude for a point marker */
+export function hasCoordinates(record: DashboardRecord): boolean {
+  return Number.isFinite(Number(record.latitude)) && Number.isFinite(Number(record.longitude))
+}
+
+/** One point feature per record of the given kind with coordinates */
+export function createPointFeatures(records: DashboardRecord[], kind: JurisdictionKind): PointMarkers {
+  const features: Array<Feature<Point>> = []
+  const missingCoordinates: DashboardRecord[] = []
+
+  records
+    .filter((record) => record.kind === kind)
+    .forEach((record) => {
+      if (!hasCoordinates(record)) {
+        missingCoordinates.push(record)
+        return
+      }
+      const lat = Number(record.latitude)
+      const lon = Number(record.longitude)
+
+      features.push({
+        type: 'Feature',
+        id: record.jurisdictionId,
+        properties: {
+          name: record.jurisdiction,
+          CSV_ID: record.jurisdictionId,
+          governmentType: record.displayGovernmentType,
+          kind: record.kind,
+          isCity: kind === 'place',
+        },
+        geometry: {
+          type: 'Point',
+          coordinates: [lon, lat], // GeoJSON uses [longitude, latitude]
+        },
+      })
+    })
+
+  return { features, missingCoordinates }
+}
@@ -0,0 +1,34 @@
+import { LayerGroup } from 'leaflet'
+import type { Layer, Path } from 'leaflet'
+
+/**
+ * Keyboard access to map features. Leaflet only makes markers focusable,
+ * and nothing activates a feature from the keyboard; Leaflet does open a
+ * layer's tooltip when its element gets focus.
+ */
+
+// Each layer with its own element: a group's members, or the layer itself
+function layersWithElements(layer: Layer): Array<{ layer: Layer; element: Element }> {
+  if (layer instanceof LayerGroup) return layer.getLayers().flatMap(layersWithElements)
+  const element = (layer as Path).getElement?.()
+  return element ? [{ layer, element }] : []
+}
+
+/**
+ * Put a feature in the tab order, labelled for screen readers, with Enter
+ * and Space firing its click handlers. Call once the layer is on the map
+ * (e.g. from its `add` event); calling again replaces the label.
+ */
+export function makeFeatureFocusable(layer: Layer, label: string): void {
+  layersWithElements(layer).forEach(({ layer: target, element }) => {
+    element.setAttribute('tabindex', '0')
+    element.setAttribute('role', 'button')
+    element.setAttribute('aria-label', label)
+    ;(element as HTMLElement | SVGElement).onkeydown = (event) => {
+      if (event.key !== 'Enter' && event.key !== ' ') return
+      event.preventDefault()
+      // Propagates to the group, where react-leaflet attaches handlers
+      target.fire('click', { originalEvent: event }, true)
+    }
+  })
+}
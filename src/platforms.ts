@@ -0,0 +1,51 @@
+import platformConfig from './platformRules.json'
+
+/**
+ * Portal platform detection. Rules live in platformRules.json and are
+ * checked in order; the first rule whose hostname suffix, exact hostname or
+ * path prefix matches wins. URLs that match nothing are 'custom'.
+ *
+ * Vendor-hosted domains (e.g. *.hub.arcgis.com) are detected by suffix;
+ * vendor sites on a city's own domain (e.g. data.cityofchicago.org) have to
+ * be listed under `hosts`.
+ */
+export interface PortalPlatform {
+  id: string
+  label: string
+}
+
+export interface PlatformRule {
+  platform: string
+  hostSuffixes?: string[]
+  hosts?: string[]
+  pathPrefixes?: string[]
+}
+
+export const PORTAL_PLATFORMS: PortalPlatform[] = platformConfig.platforms
+export const PLATFORM_RULES: PlatformRule[] = platformConfig.rules
+
+const FALLBACK_PLATFORM = 'custom'
+
+export function detectPlatform(url: string, rules: PlatformRule[] = PLATFORM_RULES): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return FALLBACK_PLATFORM
+  }
+
+  const host = parsed.hostname.toLowerCase()
+  const path = parsed.pathname.toLowerCase()
+
+  const rule = rules.find((candidate) =>
+    candidate.hostSuffixes?.some((suffix) => host.endsWith(suffix)) ||
+    candidate.hosts?.includes(host) ||
+    candidate.pathPrefixes?.some((prefix) => path.startsWith(prefix))
+  )
+
+  return rule?.platform ?? FALLBACK_PLATFORM
+}
+
+export function getPlatformLabel(id: string): string {
+  return PORTAL_PLATFORMS.find((platform) => platform.id === id)?.label ?? id
+}
@@ -0,0 +1,36 @@
+import bucketConfig from './populationBuckets.json'
+
+/**
+ * Population bucket thresholds - single source of truth for the population filter,
+ * configured in populationBuckets.json (also read by the snapshot validator).
+ * `min` is inclusive and `max` is exclusive. Labels match the sheet's
+ * "Population Size" values so records without a Census estimate still fall
+ * into a bucket.
+ */
+export interface PopulationBucket {
+  id: string
+  label: string
+  min?: number
+  max?: number
+}
+
+export const POPULATION_BUCKETS: PopulationBucket[] = bucketConfig
+
+/**
+ * Pick the bucket for a record. A numeric population wins; otherwise the
+ * sheet label is matched against bucket labels. Returns '' when neither applies.
+ */
+export function getPopulationBucket(population: number | undefined, sheetLabel: string): string {
+  if (population !== undefined) {
+    const bucket = POPULATION_BUCKETS.find(
+      (b) => (b.min === undefined || population >= b.min) && (b.max === undefined || population < b.max)
+    )
+    return bucket?.id ?? ''
+  }
+
+  return POPULATION_BUCKETS.find((b) => b.label === sheetLabel)?.id ?? ''
+}
+
+export function getPopulationBucketLabel(id: string): string {
+  return POPULATION_BUCKETS.find((b) => b.id === id)?.label ?? id
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { searchJurisdictions } from './search'
+import { record } from './testFixtures'
+
+const dallas = record({ Jurisdiction: 'Dallas, TX', 'Jurisdiction ID': '4819000' })
+const dallasCounty = record({ Jurisdiction: 'Dallas County, TX', 'Jurisdiction ID': '48113', 'Government Type': 'County' })
+const dallasCountyIowa = record({ Jurisdiction: 'Dallas County, IA', 'Jurisdiction ID': '19049', 'Government Type': 'County' })
+const donaAna = record({ Jurisdiction: 'Doña Ana County, NM', 'Jurisdiction ID': '35013', 'Government Type': 'County' })
+const denver = record({ Jurisdiction: 'Denver, CO', 'Jurisdiction ID': '0820000' })
+const RECORDS = [dallasCountyIowa, dallasCounty, dallas, donaAna, denver]
+
+const names = (query: string, records = RECORDS) =>
+  searchJurisdictions(records, query).map((result) => result.record.jurisdiction)
+
+describe('searchJurisdictions', () => {
+  it('finds nothing for an empty query', () => {
+    expect(searchJurisdictions(RECORDS, '  ')).toEqual([])
+  })
+
+  it('ranks prefix, word, substring and then fuzzy matches', () => {
+    const cities = [
+      record({ Jurisdiction: 'Atlanta, GA', 'Jurisdiction ID': '1304000' }),
+      record({ Jurisdiction: 'Havana, FL', 'Jurisdiction ID': '1229150' }),
+      record({ Jurisdiction: 'Santa Ana, CA', 'Jurisdiction ID': '0669000' }),
+      record({ Jurisdiction: 'Anaheim, CA', 'Jurisdiction ID': '0602000' }),
+    ]
+    expect(names('ana', cities)).toEqual(['Anaheim, CA', 'Santa Ana, CA', 'Havana, FL', 'Atlanta, GA'])
+  })
+
+  it('ranks exact matches first and breaks ties by name', () => {
+    expect(searchJurisdictions(RECORDS, '0820000')[0].score).toBe(100)
+    expect(names('dallas')).toEqual(['Dallas County, IA', 'Dallas County, TX', 'Dallas, TX'])
+  })
+
+  it('requires every word to match, including state names and abbreviations', () => {
+    expect(names('dallas texas')).toEqual(['Dallas County, TX', 'Dallas, TX'])
+    expect(names('dallas ia')).toEqual(['Dallas County, IA'])
+    expect(names('dallas colorado')).toEqual([])
+  })
+
+  it('ignores accents and punctuation', () => {
+    expect(names('dona ana')[0]).toBe('Doña Ana County, NM')
+    expect(names('Doña-Ana')[0]).toBe('Doña Ana County, NM')
+  })
+
+  it('matches GEOIDs', () => {
+    expect(names('48113')).toEqual(['Dallas County, TX'])
+    expect(names('0820')).toEqual(['Denver, CO'])
+  })
+
+  it('falls back to letters in order for queries of three or more characters', () => {
+    expect(names('dnvr')).toEqual(['Denver, CO'])
+    expect(names('dn')).toEqual([])
+  })
+
+  it('lists a jurisdiction with several portals once, and honors the limit', () => {
+    const secondPortal = record({ Jurisdiction: 'Dallas, TX', 'Jurisdiction ID': '4819000', URL: 'https://gis.dallascityhall.com/' })
+    expect(names('dallas', [dallas, secondPortal])).toEqual(['Dallas, TX'])
+    expect(searchJurisdictions(RECORDS, 'dallas', 2)).toHaveLength(2)
+  })
+
+  it('returns the state name with each result', () => {
+    expect(searchJurisdictions(RECORDS, '48113')[0]).toMatchObject({ record: dallasCounty, stateName: 'Texas' })
+  })
+})
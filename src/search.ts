@@ -0,0 +1,88 @@
+import type { DashboardRecord } from './dataLoader'
+import { getStateForId } from './jurisdictionKinds'
+
+export interface SearchResult {
+  record: DashboardRecord
+  stateName: string
+  score: number
+}
+
+/**
+ * Lowercase, strip accents and punctuation so "Doña Ana" matches "dona ana".
+ */
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0
+  for (const char of haystack) {
+    if (char === needle[i]) i++
+    if (i === needle.length) return true
+  }
+  return false
+}
+
+/**
+ * Score one query token against the searchable fields; 0 means no match.
+ * Exact and prefix matches rank above substrings, which rank above
+ * fuzzy (in-order letters) matches.
+ */
+function scoreToken(token: string, fields: string[]): number {
+  let best = 0
+  fields.forEach((field) => {
+    let score = 0
+    if (field === token) score = 100
+    else if (field.startsWith(token)) score = 80
+    else if (field.split(' ').some((word) => word.startsWith(token))) score = 60
+    else if (field.includes(token)) score = 40
+    else if (token.length >= 3 && isSubsequence(token, field.replace(/ /g, ''))) score = 10
+    best = Math.max(best, score)
+  })
+  return best
+}
+
+/**
+ * Match records by jurisdiction name, state name or abbreviation, and GEOID.
+ * Every query word must match something; results are deduplicated by
+ * jurisdiction ID and ranked by score, then name.
+ */
+export function searchJurisdictions(records: DashboardRecord[], query: string, limit = 8): SearchResult[] {
+  const tokens = normalizeText(query).split(' ').filter(Boolean)
+  if (tokens.length === 0) return []
+
+  const results: SearchResult[] = []
+  const seen = new Set<string>()
+
+  records.forEach((record) => {
+    if (seen.has(record.jurisdictionId)) return
+
+    const state = getStateForId(record.jurisdictionId, record.geoidScheme)
+    const fields = [
+      normalizeText(record.jurisdiction),
+      normalizeText(state?.name ?? ''),
+      state?.abbr.toLowerCase() ?? '',
+      record.jurisdictionId,
+    ]
+
+    let score = 0
+    for (const token of tokens) {
+      const tokenScore = scoreToken(token, fields)
+      if (tokenScore === 0) return
+      score += tokenScore
+    }
+
+    seen.add(record.jurisdictionId)
+    results.push({ record, stateName: state?.name ?? '', score })
+  })
+
+  return results
+    .sort((a, b) => b.score - a.score || a.record.jurisdiction.localeCompare(b.record.jurisdiction))
+    .slice(0, limit)
+}
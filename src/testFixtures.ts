@@ -0,0 +1,29 @@
+import { buildLoadReport, normalizeRow, type CsvRowRaw, type DashboardRecord } from './dataLoader'
+
+/**
+ * Record fixtures for tests: a sheet row for a city with a portal URL,
+ * with the given columns overridden.
+ */
+export function sheetRow(overrides: Partial<CsvRowRaw>): CsvRowRaw {
+  return {
+    Jurisdiction: 'Test',
+    'Jurisdiction ID': '0000000',
+    URL: 'https://example.gov/data',
+    'Government Type': 'City',
+    ...overrides,
+  }
+}
+
+/** A normalized record, without the Census population or sidecar data */
+export function record(overrides: Partial<CsvRowRaw>): DashboardRecord {
+  const normalized = normalizeRow(sheetRow(overrides))
+  if (!normalized) throw new Error('fixture row was skipped')
+  return normalized
+}
+
+/** A record loaded like a sheet row, so Census population is attached */
+export function loadedRecord(overrides: Partial<CsvRowRaw>): DashboardRecord {
+  const [loaded] = buildLoadReport([sheetRow(overrides)]).records
+  if (!loaded) throw new Error('fixture row was skipped')
+  return loaded
+}
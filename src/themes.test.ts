@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { JURISDICTION_KINDS } from './jurisdictionKinds'
+import { BASEMAPS, PALETTES, isPaletteId, resolveMapTheme, themeCssVariables } from './themes'
+
+describe('theme config', () => {
+  it('gives every palette colors for every kind and the gap layer, and known basemaps', () => {
+    const layers = [...JURISDICTION_KINDS.map((kind) => kind.id), 'gap'].sort()
+    const basemapIds = BASEMAPS.map((basemap) => basemap.id)
+
+    PALETTES.forEach((palette) => {
+      expect(Object.keys(palette.colors).sort()).toEqual(layers)
+      expect(Object.keys(palette.dark).every((layer) => layers.includes(layer))).toBe(true)
+      expect(basemapIds).toContain(palette.basemap.light)
+      expect(basemapIds).toContain(palette.basemap.dark)
+    })
+  })
+})
+
+describe('resolveMapTheme', () => {
+  it('uses the palette colors and light basemap in light mode', () => {
+    const theme = resolveMapTheme('standard', 'light')
+
+    expect(theme.id).toBe('standard-light')
+    expect(theme.colors.county).toEqual({ fill: '#b737c3', stroke: '#7f1f88' })
+    expect(theme.basemap.id).toBe('osm')
+  })
+
+  it('applies dark overrides and the dark basemap in dark mode', () => {
+    const theme = resolveMapTheme('standard', 'dark')
+
+    expect(theme.colors.gap.fill).toBe('#f0f0f0')
+    expect(theme.colors.county.fill).toBe('#b737c3')
+    expect(theme.basemap.id).toBe('carto-dark')
+  })
+
+  it('pairs the colorblind-safe and high-contrast palettes with a plain basemap', () => {
+    expect(resolveMapTheme('colorblind', 'light').basemap.id).toBe('carto-light')
+    expect(resolveMapTheme('high-contrast', 'light').basemap.id).toBe('carto-light')
+  })
+})
+
+describe('themeCssVariables', () => {
+  it('exposes each layer color as a CSS variable for the legend', () => {
+    const variables = themeCssVariables(resolveMapTheme('colorblind', 'light').colors)
+
+    expect(variables['--map-place-fill']).toBe('#e69f00')
+    expect(variables['--map-school-district-stroke']).toBe('#1f6f9c')
+  })
+})
+
+describe('isPaletteId', () => {
+  it('accepts configured palettes only', () => {
+    expect(isPaletteId('high-contrast')).toBe(true)
+    expect(isPaletteId('neon')).toBe(false)
+  })
+})
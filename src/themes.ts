@@ -0,0 +1,123 @@
+import themeConfig from './themes.json'
+import type { JurisdictionKind } from './jurisdictionKinds'
+import { createLogger } from './logger'
+
+/**
+ * Map themes, configured in themes.json: named palettes with colors for
+ * every map layer, light and dark variants, and the basemap that suits
+ * each. The resolved theme styles the Leaflet layers (USMap) and, through
+ * the CSS variables from themeCssVariables, the legend swatches.
+ */
+export type ThemeMode = 'auto' | 'light' | 'dark'
+export type ColorScheme = 'light' | 'dark'
+export type PaletteId = 'standard' | 'colorblind' | 'high-contrast'
+
+/** Map layers with their own colors: one per jurisdiction kind, plus coverage gaps */
+export type MapLayer = JurisdictionKind | 'gap'
+
+export interface LayerColors {
+  fill: string
+  stroke: string
+}
+
+export type MapColors = Record<MapLayer, LayerColors>
+
+export interface Basemap {
+  id: string
+  label: string
+  /** Leaflet tile URL template */
+  url: string
+  attribution: string
+}
+
+export interface PaletteConfig {
+  id: PaletteId
+  label: string
+  description: string
+  /** Basemap id for each color scheme */
+  basemap: Record<ColorScheme, string>
+  colors: MapColors
+  /** Layers whose colors change on the dark basemap */
+  dark: Partial<MapColors>
+}
+
+export interface MapTheme {
+  /** `${palette}-${scheme}`, e.g. for keying layers that only read styles on mount */
+  id: string
+  palette: PaletteId
+  scheme: ColorScheme
+  colors: MapColors
+  basemap: Basemap
+}
+
+export const BASEMAPS = themeConfig.basemaps as Basemap[]
+export const PALETTES = themeConfig.palettes as PaletteConfig[]
+export const DEFAULT_PALETTE: PaletteId = 'standard'
+
+export const THEME_MODES: Array<{ id: ThemeMode; label: string }> = [
+  { id: 'auto', label: 'Match system' },
+  { id: 'light', label: 'Light' },
+  { id: 'dark', label: 'Dark' },
+]
+
+const log = createLogger('theme')
+
+export function isPaletteId(value: string): value is PaletteId {
+  return PALETTES.some((palette) => palette.id === value)
+}
+
+export function isThemeMode(value: string): value is ThemeMode {
+  return THEME_MODES.some((mode) => mode.id === value)
+}
+
+/** Colors and basemap for a palette in a color scheme */
+export function resolveMapTheme(palette: PaletteId, scheme: ColorScheme): MapTheme {
+  const config = PALETTES.find((candidate) => candidate.id === palette) ?? PALETTES[0]
+  const basemapId = config.basemap[scheme]
+  return {
+    id: `${config.id}-${scheme}`,
+    palette: config.id,
+    scheme,
+    colors: scheme === 'dark' ? { ...config.colors, ...config.dark } : config.colors,
+    basemap: BASEMAPS.find((basemap) => basemap.id === basemapId) ?? BASEMAPS[0],
+  }
+}
+
+/** CSS custom properties for the layer colors, e.g. `--map-county-fill` */
+export function themeCssVariables(colors: MapColors): Record<string, string> {
+  const variables: Record<string, string> = {}
+  Object.entries(colors).forEach(([layer, { fill, stroke }]) => {
+    variables[`--map-${layer}-fill`] = fill
+    variables[`--map-${layer}-stroke`] = stroke
+  })
+  return variables
+}
+
+export interface ThemePreference {
+  mode?: ThemeMode
+  palette?: PaletteId
+}
+
+const STORAGE_KEY = 'open-data-dashboard-map:theme'
+
+/** The theme the user last picked; storage can be unavailable (e.g. in sandboxed iframes) */
+export function loadThemePreference(): ThemePreference {
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, string>
+    return {
+      mode: saved.mode && isThemeMode(saved.mode) ? saved.mode : undefined,
+      palette: saved.palette && isPaletteId(saved.palette) ? saved.palette : undefined,
+    }
+  } catch (error) {
+    log.debug('Theme preference unavailable:', error)
+    return {}
+  }
+}
+
+export function saveThemePreference(preference: Required<ThemePreference>): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preference))
+  } catch (error) {
+    log.debug('Could not save theme preference:', error)
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { parseUrlState, serializeUrlState, type UrlState } from './urlState'
+
+const DEFAULTS: UrlState = {
+  govType: '',
+  popSizes: [],
+  platform: '',
+  hideBroken: false,
+  selected: [],
+  compare: false,
+  region: 'lower48',
+  view: undefined,
+}
+
+describe('parseUrlState', () => {
+  it('falls back to the defaults', () => {
+    expect(parseUrlState('')).toEqual(DEFAULTS)
+  })
+
+  it('reads every parameter', () => {
+    expect(parseUrlState('?gov=County&pop=over-1m,500k-1m&platform=socrata&hideBroken=1&sel=08031,06037&compare=1' +
+      '&region=alaska&center=39.7392,-104.9903&zoom=8')).toEqual({
+      govType: 'County',
+      popSizes: ['over-1m', '500k-1m'],
+      platform: 'socrata',
+      hideBroken: true,
+      selected: ['08031', '06037'],
+      compare: true,
+      region: 'alaska',
+      view: { center: [39.7392, -104.9903], zoom: 8 },
+    })
+  })
+
+  it('reads encoded commas in lists', () => {
+    expect(parseUrlState('?sel=08031%2C06037').selected).toEqual(['08031', '06037'])
+  })
+
+  it('ignores invalid values', () => {
+    expect(parseUrlState('?gov=Township&region=guam&center=north,west&zoom=8&sel=,,08031,')).toEqual({
+      ...DEFAULTS,
+      selected: ['08031'],
+    })
+    expect(parseUrlState('?center=39.7,-104.9').view).toBeUndefined()
+  })
+})
+
+describe('serializeUrlState', () => {
+  it('leaves defaults out of the query string', () => {
+    expect(serializeUrlState(DEFAULTS, '')).toBe('')
+  })
+
+  it('writes lists with literal commas and sorted population buckets', () => {
+    const search = serializeUrlState({
+      ...DEFAULTS,
+      popSizes: ['over-1m', '500k-1m'],
+      selected: ['08031', '06037'],
+      view: { center: [39.73921, -104.99034], zoom: 8 },
+    }, '')
+    expect(search).toBe('?pop=500k-1m,over-1m&sel=08031,06037&center=39.7392,-104.9903&zoom=8')
+  })
+
+  it('keeps unrelated parameters and their encoding', () => {
+    const source = encodeURIComponent('https://example.org/portals.csv?cols=a,b')
+    const search = serializeUrlState({ ...DEFAULTS, selected: ['08031'] }, `?embed=1&source=${source}&sel=06037`)
+
+    expect(search).toBe('?embed=1&source=https%3A%2F%2Fexample.org%2Fportals.csv%3Fcols%3Da%2Cb&sel=08031')
+    expect(new URLSearchParams(search).get('source')).toBe('https://example.org/portals.csv?cols=a,b')
+  })
+
+  it.each<[string, Partial<UrlState>]>([
+    ['filters', { govType: 'Other Public Agency', popSizes: ['under-50k'], platform: 'arcgis-hub', hideBroken: true }],
+    ['a selection to compare', { selected: ['4819000', '48113'], compare: true }],
+    ['a region and view', { region: 'hawaii', view: { center: [21.3069, -157.8583], zoom: 9 } }],
+  ])('round-trips %s', (_name, state) => {
+    const full = { ...DEFAULTS, ...state }
+    expect(parseUrlState(serializeUrlState(full, ''))).toEqual(full)
+  })
+})
@@ -0,0 +1,86 @@
+import { isGovernmentTypeFilter, type GovernmentTypeFilter } from './filters'
+import type { MapView, Region } from './Map'
+
+/**
+ * App state that is mirrored in the query string so views can be shared and
+ * restored with back/forward. Example:
+ *   ?gov=County&pop=over-1m&platform=socrata&region=lower48&sel=08031&center=39.7392,-104.9903&zoom=8
+ *   ?sel=08031,06037&compare=1
+ */
+export interface UrlState {
+  govType: GovernmentTypeFilter
+  popSizes: string[]
+  platform: string
+  hideBroken: boolean
+  selected: string[]
+  /** The compare view is open */
+  compare: boolean
+  region: Region
+  view?: MapView
+}
+
+export const REGIONS: Region[] = ['lower48', 'alaska', 'hawaii']
+
+// Query parameters owned by this module; anything else (e.g. embed=1) is preserved
+const KEYS = ['gov', 'pop', 'platform', 'hideBroken', 'sel', 'compare', 'region', 'center', 'zoom']
+
+// Comma-separated parameters, written with literal commas so they stay readable
+const LIST_KEYS = ['pop', 'sel', 'center']
+
+function parseList(value: string | null): string[] {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : []
+}
+
+function parseView(center: string | null, zoom: string | null): MapView | undefined {
+  if (!center || !zoom) return undefined
+  const [lat, lng] = center.split(',').map(Number)
+  const zoomLevel = Number(zoom)
+  if (![lat, lng, zoomLevel].every(Number.isFinite)) return undefined
+  return { center: [lat, lng], zoom: zoomLevel }
+}
+
+export function parseUrlState(search: string): UrlState {
+  const params = new URLSearchParams(search)
+  const gov = params.get('gov') ?? ''
+  const region = params.get('region') as Region | null
+
+  return {
+    govType: isGovernmentTypeFilter(gov) ? gov : '',
+    popSizes: parseList(params.get('pop')),
+    platform: params.get('platform') ?? '',
+    hideBroken: params.get('hideBroken') === '1',
+    selected: parseList(params.get('sel')),
+    compare: params.get('compare') === '1',
+    region: region && REGIONS.includes(region) ? region : 'lower48',
+    view: parseView(params.get('center'), params.get('zoom')),
+  }
+}
+
+/**
+ * Build the query string for a state, keeping unrelated parameters from `search`.
+ * Defaults are omitted so the plain URL stays clean.
+ */
+export function serializeUrlState(state: UrlState, search: string): string {
+  const params = new URLSearchParams(search)
+  KEYS.forEach((key) => params.delete(key))
+
+  if (state.govType) params.set('gov', state.govType)
+  if (state.popSizes.length > 0) params.set('pop', [...state.popSizes].sort().join(','))
+  if (state.platform) params.set('platform', state.platform)
+  if (state.hideBroken) params.set('hideBroken', '1')
+  if (state.selected.length > 0) params.set('sel', state.selected.join(','))
+  if (state.compare) params.set('compare', '1')
+  if (state.region !== 'lower48') params.set('region', state.region)
+  if (state.view) {
+    params.set('center', state.view.center.map((value) => value.toFixed(4)).join(','))
+    params.set('zoom', String(state.view.zoom))
+  }
+
+  // Other parameters keep their encoding, e.g. a `source` URL with %2C in it
+  const query = params.toString()
+    .split('&')
+    .filter(Boolean)
+    .map((pair) => (LIST_KEYS.includes(pair.split('=')[0]) ? pair.replace(/%2C/g, ',') : pair))
+    .join('&')
+  return query ? `?${query}` : ''
+}
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Default data source: "bundled" (the default), "file", or a JSON/CSV URL (see dataSources.ts) */
+  readonly VITE_DATA_SOURCE?: string
+  /** Set to "true" to let the ?source= URL parameter pick the data source (off by default) */
+  readonly VITE_ALLOW_SOURCE_PARAM?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
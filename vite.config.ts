@@ -1,8 +1,11 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   base: '/open-data-dashboard-map/',
   plugins: [react()],
+  test: {
+    include: ['src/**/*.test.ts', 'scripts/**/*.test.mjs'],
+  },
 })
-
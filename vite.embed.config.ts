@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+// Builds the host-page helper (src/embedHost.ts) as a standalone ES module at
+// dist/embed/embed-host.js, next to the app, so partner sites can import it.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist/embed',
+    emptyOutDir: false,
+    lib: {
+      entry: 'src/embedHost.ts',
+      formats: ['es'],
+      fileName: () => 'embed-host.js',
+    },
+  },
+})